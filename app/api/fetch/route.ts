@@ -0,0 +1,47 @@
+import {
+  fetchSitemapText,
+  SITEMAP_WARNINGS_HEADER,
+} from "@/lib/fetch-sitemap";
+import {
+  createRateLimiter,
+  getClientIp,
+  GuardedFetchError,
+} from "@/lib/guarded-fetch";
+import { NextResponse } from "next/server";
+
+const rateLimiter = createRateLimiter({ limit: 20, windowMs: 60_000 });
+
+/**
+ * Downloads a sitemap server-side so the browser is not blocked by CORS.
+ * Expects `{ url: string }` and responds with the raw XML, with any decoding
+ * warnings in the X-Sitemap-Warnings header, or with `{ error, code }` when
+ * the fetch was refused or failed.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const url = typeof body?.url === "string" ? body.url.trim() : "";
+
+  try {
+    rateLimiter.consume(getClientIp(request));
+    const { text, warnings } = await fetchSitemapText(url, {
+      signal: request.signal,
+    });
+    return new NextResponse(text, {
+      headers: {
+        "Content-Type": "application/xml; charset=utf-8",
+        [SITEMAP_WARNINGS_HEADER]: encodeURIComponent(JSON.stringify(warnings)),
+      },
+    });
+  } catch (error) {
+    if (error instanceof GuardedFetchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch sitemap" },
+      { status: 500 }
+    );
+  }
+}
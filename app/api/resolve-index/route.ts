@@ -0,0 +1,51 @@
+import { fetchSitemapText } from "@/lib/fetch-sitemap";
+import {
+  createRateLimiter,
+  getClientIp,
+  GuardedFetchError,
+} from "@/lib/guarded-fetch";
+import { resolveSitemapIndex } from "@/lib/sitemap";
+import { NextResponse } from "next/server";
+
+// Each request can fan out to hundreds of fetches, so allow fewer of them
+const rateLimiter = createRateLimiter({ limit: 5, windowMs: 60_000 });
+
+const isSitemapList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((item) => typeof item === "string");
+
+/**
+ * Expands the child sitemaps of a sitemap index. Expects `{ sitemaps: string[] }`
+ * and responds with the merged entries, each tagged with its `sourceSitemap`.
+ * Child sitemaps that are refused or fail to load, and those left over once
+ * the resolver's entry budget or deadline runs out, are reported as warnings.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!isSitemapList(body?.sitemaps)) {
+    return NextResponse.json(
+      { error: "Expected a non-empty list of sitemap URLs" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    rateLimiter.consume(getClientIp(request));
+  } catch (error) {
+    const { message, code, status } = error as GuardedFetchError;
+    return NextResponse.json({ error: message, code }, { status });
+  }
+
+  try {
+    const result = await resolveSitemapIndex(body.sitemaps, {
+      fetchSitemap: (url, signal) => fetchSitemapText(url, { signal }),
+      signal: request.signal,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    // Only a cancelled request makes the resolver throw
+    if (!request.signal.aborted) throw error;
+    return new NextResponse(null, { status: 499 });
+  }
+}
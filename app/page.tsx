@@ -1,11 +1,25 @@
 "use client";
 
-import type React from "react";
-
+import { HreflangAuditTable } from "@/components/hreflang-audit-table";
+import { MergeSummary } from "@/components/merge-summary";
+import { ParseWarnings } from "@/components/parse-warnings";
+import { ProtocolFindingsTable } from "@/components/protocol-findings-table";
+import { SchemaErrorsPanel } from "@/components/schema-errors-panel";
+import { SitemapDropZone } from "@/components/sitemap-drop-zone";
+import { SourceExcerptView } from "@/components/source-excerpt";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -14,256 +28,567 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  UploadFileList,
+  type FileParseStatus,
+} from "@/components/upload-file-list";
+import { VideoTable } from "@/components/video-table";
 import { useFavicon } from "@/lib/favicon-utils";
+import {
+  auditHreflang,
+  expandZipArchives,
+  formatAlternates,
+  hasAlternates,
+  hasFeedItems,
+  hasImages,
+  hasNews,
+  hasSourceSitemaps,
+  hasVideos,
+  hreflangFindingsToCsv,
+  mergeSitemaps,
+  progressPercent,
+  protocolFindingsToCsv,
+  schemaErrorsToCsv,
+  sitemapToCsv,
+  SitemapParseError,
+  streamSitemapToCsv,
+  toSitemapRows,
+  videosToCsv,
+  type AlternatesExportMode,
+  type DedupeMode,
+  type ImageExportMode,
+  type MergeSource,
+  type MergeStats,
+  type ProgressUpdate,
+  type ProtocolFinding,
+  type SchemaError,
+  type ResolvedSitemapIndex,
+  type SitemapEntry,
+  type ZipContents,
+} from "@/lib/sitemap";
+import { parseInWorker } from "@/lib/sitemap/worker";
 import {
   AlertCircle,
+  AlertTriangle,
+  Ban,
   CheckCircle,
   Download,
   File,
   FileText,
+  FolderTree,
   Github,
+  Globe,
+  Sparkles,
   Upload,
 } from "lucide-react";
-import { useEffect, useState } from "react";
-
-interface SitemapEntry {
-  url: string;
-  lastModified?: string;
-  changeFrequency?: string;
-  priority?: string;
-  alternates?: string;
-}
+import { useEffect, useMemo, useRef, useState } from "react";
 
-const cleanXmlContent = (content: string): string => {
-  // Remove common browser messages and non-XML content
-  let cleaned = content
-    // Remove the common browser message about XML styling
-    .replace(
-      /This XML file does not appear to have any style information associated with it\./gi,
-      ""
-    )
-    .replace(/The document tree is shown below\./gi, "")
-    // Remove other common browser messages
-    .replace(/This page contains the following errors:/gi, "")
-    .replace(/Below is a rendering of the page up to the first error\./gi, "")
-    // Remove any leading/trailing whitespace and newlines
-    .trim();
-
-  // Find the start of actual XML content
-  const xmlStartPatterns = [
-    /<\?xml/i, // XML declaration
-    /<urlset/i, // Sitemap root element
-    /<sitemapindex/i, // Sitemap index root element
-    /<rss/i, // RSS feed
-    /<feed/i, // Atom feed
-  ];
-
-  let xmlStart = -1;
-  for (const pattern of xmlStartPatterns) {
-    const match = cleaned.search(pattern);
-    if (match !== -1) {
-      xmlStart = match;
-      break;
-    }
-  }
+// Error body of the fetch routes; `code` is set for guarded-fetch failures
+type FetchRouteError = { error?: string; code?: string };
 
-  // If we found XML content, extract from that point
-  if (xmlStart !== -1) {
-    cleaned = cleaned.substring(xmlStart);
-  }
+// Uploads above this size can be streamed straight to CSV, skipping the table
+const STREAMING_THRESHOLD_BYTES = 20 * 1024 * 1024;
 
-  // Remove any remaining non-XML text at the beginning
-  // Look for lines that don't start with < and remove them
-  const lines = cleaned.split("\n");
-  let firstXmlLine = 0;
+const saveCsv = (blob: Blob, filename: string) => {
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Release the (possibly very large) Blob once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
 
-  for (let i = 0; i < lines.length; i++) {
-    const trimmedLine = lines[i].trim();
-    if (trimmedLine.startsWith("<") || trimmedLine === "") {
-      firstXmlLine = i;
-      break;
-    }
-  }
+// Progress of the running conversion, as shown under the input card
+type ProcessingProgress = { percent: number; detail: string };
+
+const formatMegabytes = (bytes: number) =>
+  `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 
-  if (firstXmlLine > 0) {
-    cleaned = lines.slice(firstXmlLine).join("\n");
+const describeProgress = ({
+  unit,
+  processed,
+  total,
+}: ProgressUpdate): ProcessingProgress => ({
+  percent: progressPercent({ unit, processed, total }),
+  detail:
+    unit === "bytes"
+      ? `Reading file: ${formatMegabytes(processed)} of ${formatMegabytes(
+          total
+        )}`
+      : `Parsing: ${processed.toLocaleString()} of ${total.toLocaleString()} entries`,
+});
+
+const describeFetchError = (
+  { error, code }: FetchRouteError,
+  fallback: string
+) => (error && code ? `${error} (${code})` : error || fallback);
+
+// The message of a failed fetch route response. Proxies and the hosting
+// platform can answer with an HTML or empty body instead of the route's JSON,
+// so fall back to the HTTP status then.
+const readFetchError = async (response: Response, fallback: string) => {
+  const status = `${fallback}: HTTP ${response.status}${
+    response.statusText ? ` ${response.statusText}` : ""
+  }`;
+  try {
+    const result: FetchRouteError = await response.json();
+    return describeFetchError(result ?? {}, status);
+  } catch {
+    return status;
   }
+};
 
-  return cleaned.trim();
+// The decoding warnings /api/fetch sends along with the sitemap, as
+// URI-encoded JSON
+const readFetchWarnings = (response: Response): string[] => {
+  const header = response.headers.get("X-Sitemap-Warnings");
+  if (!header) return [];
+  try {
+    const warnings: unknown = JSON.parse(decodeURIComponent(header));
+    return Array.isArray(warnings) ? warnings.map(String) : [];
+  } catch {
+    return [];
+  }
 };
 
 export default function SitemapConverter() {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  // Parse status of each selected file, by index
+  const [fileStatuses, setFileStatuses] = useState<FileParseStatus[]>([]);
+  // Parsed entries of each file of a multi-file conversion, kept so they can
+  // be merged again when the de-duplication mode changes
+  const [fileSources, setFileSources] = useState<MergeSource[] | null>(null);
+  const [mergeStats, setMergeStats] = useState<MergeStats | null>(null);
+  const [dedupeMode, setDedupeMode] = useState<DedupeMode>("exact");
+  // Archive entries and archives that could not be added to `files`
+  const [skippedUploads, setSkippedUploads] = useState<string[]>([]);
+  const [isUnpacking, setIsUnpacking] = useState(false);
   const [sitemapData, setSitemapData] = useState<SitemapEntry[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string>("");
+  // Set alongside `error` when the sitemap is not well-formed XML
+  const [parseError, setParseError] = useState<SitemapParseError | null>(null);
   const [xmlContent, setXmlContent] = useState<string>("");
+  const [sitemapUrl, setSitemapUrl] = useState<string>("");
   const [activeTab, setActiveTab] = useState<string>("upload");
+  const [imageMode, setImageMode] = useState<ImageExportMode>("aggregate");
+  const [alternatesMode, setAlternatesMode] =
+    useState<AlternatesExportMode>("combined");
+  const [resultsView, setResultsView] = useState<string>("pages");
+  const [indexSitemaps, setIndexSitemaps] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  // What the cleanup (see lib/sitemap/clean) stripped from the XML
+  const [cleaned, setCleaned] = useState<string[]>([]);
+  // Protocol validation of the converted sitemap; null when not validated
+  const [protocolFindings, setProtocolFindings] = useState<
+    ProtocolFinding[] | null
+  >(null);
+  // XSD errors of a converted XML sitemap; null when not validated
+  const [schemaErrors, setSchemaErrors] = useState<SchemaError[] | null>(null);
+  const [streamedCount, setStreamedCount] = useState<number | null>(null);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  // Repair malformed XML instead of failing on the first error
+  const [recover, setRecover] = useState(false);
+  // Check the sitemap against the protocol and schemas, at the cost of a
+  // slower parse
+  const [validate, setValidate] = useState(false);
+  const abortController = useRef<AbortController | null>(null);
+
+  const showAlternates = hasAlternates(sitemapData);
+  const showImages = hasImages(sitemapData);
+  const showVideos = hasVideos(sitemapData);
+  const showNews = hasNews(sitemapData);
+  const showSource = hasSourceSitemaps(sitemapData);
+  const showFeed = hasFeedItems(sitemapData);
+  const showProtocol = protocolFindings !== null;
+  const showSchema = schemaErrors !== null;
+
+  const hreflangFindings = useMemo(
+    () => auditHreflang(sitemapData),
+    [sitemapData]
+  );
 
-  const { startSimpleProcessing, stopSimpleProcessing } = useFavicon();
+  const { startProcessing, stopProcessing, updateProgress } = useFavicon();
+  const percent = progress?.percent;
 
   // Update favicon when processing state changes
   useEffect(() => {
     if (isProcessing) {
-      startSimpleProcessing();
-      // Also update document title to show processing
-      document.title = "Processing... - Sitemap to CSV Converter";
+      startProcessing();
     } else {
-      stopSimpleProcessing();
+      stopProcessing();
       // Reset document title
       document.title = "Sitemap to CSV Converter";
     }
 
     // Cleanup on unmount
     return () => {
-      stopSimpleProcessing();
+      stopProcessing();
     };
-  }, [isProcessing, startSimpleProcessing, stopSimpleProcessing]);
-
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = event.target.files?.[0];
-    if (selectedFile) {
-      setFile(selectedFile);
-      setError("");
-      setSitemapData([]);
-    }
-  };
+  }, [isProcessing, startProcessing, stopProcessing]);
+
+  // Show the percentage in the document title and as a favicon ring
+  useEffect(() => {
+    if (!isProcessing) return;
 
-  const parseSitemap = async () => {
-    if (!file && !xmlContent.trim()) return;
+    updateProgress(percent ?? 0);
+    document.title =
+      percent === undefined
+        ? "Processing... - Sitemap to CSV Converter"
+        : `${percent}% Processing... - Sitemap to CSV Converter`;
+  }, [isProcessing, percent, updateProgress]);
 
+  // Abort any running conversion when the page unmounts
+  useEffect(() => () => abortController.current?.abort(), []);
+
+  // Starts a cancellable task and returns the signal it should honour
+  const beginTask = () => {
+    const controller = new AbortController();
+    abortController.current = controller;
     setIsProcessing(true);
     setError("");
+    setParseError(null);
+    setCancelled(false);
+    return controller.signal;
+  };
+
+  const endTask = (signal: AbortSignal) => {
+    if (abortController.current?.signal !== signal) return;
+    abortController.current = null;
+    setIsProcessing(false);
+    setProgress(null);
+  };
 
+  const cancelProcessing = () => abortController.current?.abort();
+
+  // Unpacks dropped or chosen .zip archives before selecting their sitemaps
+  const handleFilesSelected = async (selected: File[]) => {
+    setIsUnpacking(true);
+    let expanded: ZipContents;
     try {
-      // Add a small delay to show the processing state
-      await new Promise((resolve) => setTimeout(resolve, 500));
+      expanded = await expandZipArchives(selected);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to read the selected files"
+      );
+      return;
+    } finally {
+      setIsUnpacking(false);
+    }
+    const { files: selectedFiles, skipped } = expanded;
+
+    setFiles(selectedFiles);
+    setFileStatuses(selectedFiles.map(() => ({ state: "pending" })));
+    setSkippedUploads(skipped);
+    setFileSources(null);
+    setMergeStats(null);
+    setError(
+      selectedFiles.length === 0 ? "No sitemap files found in the upload" : ""
+    );
+    setParseError(null);
+    setCancelled(false);
+    setSitemapData([]);
+    setStreamedCount(null);
+  };
 
-      let text: string;
+  const convertSitemap = async () => {
+    if (files.length === 0 && !xmlContent.trim() && !sitemapUrl.trim()) return;
+    if (activeTab === "upload" && files.length > 1) return convertFiles();
 
-      if (activeTab === "upload" && file) {
-        const rawText = await file.text();
-        text = cleanXmlContent(rawText);
+    const signal = beginTask();
+
+    try {
+      let source: Blob | string;
+      // Decoding warnings of a sitemap fetched by /api/fetch
+      let fetchWarnings: string[] = [];
+
+      if (activeTab === "upload" && files.length > 0) {
+        source = files[0];
       } else if (activeTab === "paste" && xmlContent.trim()) {
-        text = cleanXmlContent(xmlContent.trim());
+        source = xmlContent.trim();
+      } else if (activeTab === "url" && sitemapUrl.trim()) {
+        const response = await fetch("/api/fetch", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url: sitemapUrl.trim() }),
+          signal,
+        });
+        if (!response.ok) {
+          throw new Error(
+            await readFetchError(response, "Failed to fetch sitemap")
+          );
+        }
+        source = await response.text();
+        fetchWarnings = readFetchWarnings(response);
       } else {
         throw new Error("No content provided");
       }
 
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(text, "text/xml");
+      // Parsing runs in a Web Worker so the page stays responsive
+      const result = await parseInWorker(source, {
+        onProgress: (update) => setProgress(describeProgress(update)),
+        signal,
+        validate,
+        recover,
+        pasted: activeTab === "paste",
+      });
+      const urls = toSitemapRows(result);
 
-      // Check for parsing errors
-      const parserError = xmlDoc.querySelector("parsererror");
-      if (parserError) {
-        throw new Error("Invalid XML format");
+      if (urls.length === 0) {
+        throw new Error("No URLs found in the sitemap");
       }
 
-      const urls: SitemapEntry[] = [];
-
-      // Handle regular sitemap
-      const urlElements = xmlDoc.querySelectorAll("url");
-      urlElements.forEach((urlElement) => {
-        const loc = urlElement.querySelector("loc")?.textContent;
-        if (loc) {
-          const entry: SitemapEntry = {
-            url: loc,
-            lastModified:
-              urlElement.querySelector("lastmod")?.textContent || "",
-            changeFrequency:
-              urlElement.querySelector("changefreq")?.textContent || "",
-            priority: urlElement.querySelector("priority")?.textContent || "",
-          };
-
-          // Handle alternates (hreflang)
-          const alternates = urlElement.querySelectorAll("xhtml\\:link, link");
-          if (alternates.length > 0) {
-            const alternateUrls = Array.from(alternates)
-              .map(
-                (alt) =>
-                  `${alt.getAttribute("hreflang")}: ${alt.getAttribute("href")}`
-              )
-              .join("; ");
-            entry.alternates = alternateUrls;
-          }
-
-          urls.push(entry);
+      setSitemapData(urls);
+      setIndexSitemaps(result.sitemaps.map((sitemap) => sitemap.url));
+      setWarnings([...fetchWarnings, ...result.warnings]);
+      setCleaned(result.cleaned ?? []);
+      setProtocolFindings(result.findings ?? null);
+      setSchemaErrors(result.schemaErrors ?? null);
+      setFileSources(null);
+      setMergeStats(null);
+      setResultsView("pages");
+    } catch (err) {
+      if (signal.aborted) {
+        setCancelled(true);
+      } else {
+        setError(
+          err instanceof Error ? err.message : "Failed to parse sitemap"
+        );
+        if (err instanceof SitemapParseError) setParseError(err);
+      }
+    } finally {
+      endTask(signal);
+    }
+  };
+
+  // Parses the selected files one after another and merges their entries,
+  // tagging each with the name of its file. A file that fails to parse is
+  // marked as failed without stopping the others.
+  const convertFiles = async () => {
+    const signal = beginTask();
+    setFileStatuses(files.map(() => ({ state: "pending" })));
+    const setStatus = (index: number, status: FileParseStatus) =>
+      setFileStatuses((statuses) =>
+        statuses.map((current, i) => (i === index ? status : current))
+      );
+
+    try {
+      const sources: MergeSource[] = [];
+      const fileWarnings: string[] = [];
+
+      for (const [index, file] of files.entries()) {
+        signal.throwIfAborted();
+        setStatus(index, { state: "parsing" });
+        try {
+          const result = await parseInWorker(file, {
+            onProgress: (update) => {
+              const { percent, detail } = describeProgress(update);
+              setProgress({
+                percent: Math.round((index * 100 + percent) / files.length),
+                detail: `${file.name} (${index + 1} of ${
+                  files.length
+                }): ${detail}`,
+              });
+            },
+            signal,
+            recover,
+          });
+          const urls = toSitemapRows(result);
+          sources.push({ name: file.name, entries: urls });
+          result.warnings.forEach((warning) =>
+            fileWarnings.push(`${file.name}: ${warning}`)
+          );
+          setStatus(index, {
+            state: "done",
+            count: urls.length,
+            warnings: result.warnings.length,
+          });
+        } catch (err) {
+          if (signal.aborted) throw err;
+          setStatus(index, {
+            state: "error",
+            message:
+              err instanceof Error ? err.message : "Failed to parse sitemap",
+          });
         }
-      });
+      }
 
-      // Handle sitemap index
-      if (urls.length === 0) {
-        const sitemapElements = xmlDoc.querySelectorAll("sitemap");
-        sitemapElements.forEach((sitemapElement) => {
-          const loc = sitemapElement.querySelector("loc")?.textContent;
-          if (loc) {
-            urls.push({
-              url: loc,
-              lastModified:
-                sitemapElement.querySelector("lastmod")?.textContent || "",
-              changeFrequency: "Sitemap Index",
-              priority: "",
-            });
-          }
-        });
+      const { entries, stats } = mergeSitemaps(sources, dedupeMode);
+      if (entries.length === 0) {
+        throw new Error("No URLs found in the selected files");
       }
 
-      if (urls.length === 0) {
+      setSitemapData(entries);
+      setIndexSitemaps([]);
+      setWarnings(fileWarnings);
+      setCleaned([]);
+      // Validation describes a single sitemap
+      setProtocolFindings(null);
+      setSchemaErrors(null);
+      setFileSources(sources);
+      setMergeStats(stats);
+      setResultsView("pages");
+    } catch (err) {
+      if (signal.aborted) {
+        setCancelled(true);
+      } else {
+        setError(
+          err instanceof Error ? err.message : "Failed to parse sitemaps"
+        );
+      }
+    } finally {
+      endTask(signal);
+    }
+  };
+
+  const handleDedupeChange = (mode: DedupeMode) => {
+    setDedupeMode(mode);
+    if (!fileSources) return;
+    const { entries, stats } = mergeSitemaps(fileSources, mode);
+    setSitemapData(entries);
+    setMergeStats(stats);
+  };
+
+  // Converts a large upload without building the results table, so the
+  // browser never holds every entry in memory at once
+  const streamFileToCsv = async () => {
+    const file = files[0];
+    if (!file) return;
+
+    const signal = beginTask();
+    setSitemapData([]);
+    setStreamedCount(null);
+    // Reported by the scanning pass only, so each appears once
+    const streamWarnings: string[] = [];
+    setWarnings([]);
+
+    try {
+      const { csv, count } = await streamSitemapToCsv(file, {
+        imageMode,
+        alternatesMode,
+        onWarning: (warning) => streamWarnings.push(warning),
+        onProgress: (fraction) =>
+          setProgress({
+            percent: Math.round(fraction * 100),
+            detail: fraction < 0.5 ? "Scanning entries" : "Writing CSV",
+          }),
+        signal,
+      });
+      if (count === 0) {
         throw new Error("No URLs found in the sitemap");
       }
 
-      setSitemapData(urls);
+      saveCsv(csv, `sitemap-${Date.now()}.csv`);
+      setStreamedCount(count);
+      setWarnings(streamWarnings);
+    } catch (err) {
+      if (signal.aborted) {
+        setCancelled(true);
+      } else {
+        setError(
+          err instanceof Error ? err.message : "Failed to parse sitemap"
+        );
+        if (err instanceof SitemapParseError) setParseError(err);
+      }
+    } finally {
+      endTask(signal);
+    }
+  };
+
+  // Replaces the listed child sitemaps with the entries they contain
+  const expandSitemapIndex = async () => {
+    if (indexSitemaps.length === 0) return;
+
+    const signal = beginTask();
+
+    try {
+      const response = await fetch("/api/resolve-index", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sitemaps: indexSitemaps }),
+        signal,
+      });
+      if (!response.ok) {
+        throw new Error(
+          await readFetchError(response, "Failed to expand sitemap index")
+        );
+      }
+      const result: ResolvedSitemapIndex = await response.json();
+      if (result.entries.length === 0) {
+        throw new Error(
+          result.warnings[0] || "No URLs found in the child sitemaps"
+        );
+      }
+
+      setSitemapData(result.entries);
+      setIndexSitemaps([]);
+      setWarnings(result.warnings);
+      setCleaned([]);
+      // The findings described the index, not the merged child sitemaps
+      setProtocolFindings(null);
+      setSchemaErrors(null);
+      setFileSources(null);
+      setMergeStats(null);
+      setResultsView("pages");
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to parse sitemap");
+      if (signal.aborted) {
+        setCancelled(true);
+      } else {
+        setError(
+          err instanceof Error ? err.message : "Failed to expand sitemap index"
+        );
+      }
     } finally {
-      setIsProcessing(false);
+      endTask(signal);
     }
   };
 
   const downloadCSV = () => {
     if (sitemapData.length === 0) return;
 
-    const headers = [
-      "URL",
-      "Last Modified",
-      "Change Frequency",
-      "Priority",
-      "Alternates",
-    ];
-    const csvContent = [
-      headers.join(","),
-      ...sitemapData.map((entry) =>
-        [
-          `"${entry.url}"`,
-          `"${entry.lastModified || ""}"`,
-          `"${entry.changeFrequency || ""}"`,
-          `"${entry.priority || ""}"`,
-          `"${entry.alternates || ""}"`,
-        ].join(",")
-      ),
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", `sitemap-${Date.now()}.csv`);
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const csvContent =
+      resultsView === "videos"
+        ? videosToCsv(sitemapData)
+        : resultsView === "hreflang"
+        ? hreflangFindingsToCsv(hreflangFindings)
+        : resultsView === "protocol"
+        ? protocolFindingsToCsv(protocolFindings ?? [])
+        : resultsView === "schema"
+        ? schemaErrorsToCsv(schemaErrors ?? [])
+        : sitemapToCsv(sitemapData, { imageMode, alternatesMode });
+
+    saveCsv(
+      new Blob([csvContent], { type: "text/csv;charset=utf-8;" }),
+      `sitemap-${
+        resultsView === "pages" ? "" : `${resultsView}-`
+      }${Date.now()}.csv`
+    );
   };
 
   const handleTabChange = (value: string) => {
     setActiveTab(value);
     setError("");
+    setParseError(null);
+    setCancelled(false);
     setSitemapData([]);
-    if (value === "upload") {
+    if (value !== "upload") {
+      setFiles([]);
+      setFileStatuses([]);
+      setSkippedUploads([]);
+    }
+    if (value !== "paste") {
       setXmlContent("");
-    } else {
-      setFile(null);
+    }
+    if (value !== "url") {
+      setSitemapUrl("");
     }
   };
 
@@ -381,7 +706,7 @@ export default function SitemapConverter() {
                   Import Sitemap
                 </h2>
                 <p className="text-sm text-gray-600">
-                  Upload a file or paste XML content
+                  Upload a file, paste XML content or fetch it by URL
                 </p>
               </div>
             </div>
@@ -405,6 +730,12 @@ export default function SitemapConverter() {
                   >
                     Paste XML
                   </TabsTrigger>
+                  <TabsTrigger
+                    value="url"
+                    className="px-6 py-3 text-sm font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=active]:text-gray-900 text-gray-600 transition-all duration-150"
+                  >
+                    From URL
+                  </TabsTrigger>
                 </TabsList>
               </div>
 
@@ -414,24 +745,40 @@ export default function SitemapConverter() {
                     htmlFor="sitemap-file"
                     className="text-sm font-medium text-gray-700"
                   >
-                    XML Sitemap File
+                    XML Sitemap Files
                   </Label>
-                  <div className="relative">
-                    <input
-                      id="sitemap-file"
-                      type="file"
-                      accept=".xml,.txt"
-                      onChange={handleFileChange}
-                      className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                    />
-                    <div className="h-12 border-gray-200 rounded-xl bg-gray-50 border flex items-center justify-center cursor-pointer hover:bg-gray-100 transition-colors">
-                      <span className="text-sm font-medium text-gray-700">
-                        Choose File
-                      </span>
+                  <SitemapDropZone
+                    onFiles={handleFilesSelected}
+                    onError={setError}
+                    disabled={isProcessing || isUnpacking}
+                  />
+
+                  {isUnpacking && (
+                    <div className="text-xs text-gray-500 flex items-center">
+                      <div className="w-3 h-3 border-2 border-gray-400 border-t-transparent rounded-full animate-spin mr-2"></div>
+                      Unpacking archives...
                     </div>
-                  </div>
+                  )}
+
+                  {skippedUploads.length > 0 && (
+                    <details className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                      <summary className="flex items-center cursor-pointer font-medium">
+                        <AlertTriangle
+                          className="w-4 h-4 mr-2"
+                          strokeWidth={1.5}
+                        />
+                        {skippedUploads.length}{" "}
+                        {skippedUploads.length === 1 ? "file" : "files"} skipped
+                      </summary>
+                      <ul className="mt-2 space-y-1 max-h-40 overflow-auto font-mono text-xs">
+                        {skippedUploads.map((reason, index) => (
+                          <li key={index}>{reason}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
 
-                  {file && (
+                  {files.length === 1 && (
                     <div className="bg-gray-50 rounded-xl p-4 border border-gray-100">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-3">
@@ -443,15 +790,15 @@ export default function SitemapConverter() {
                           </div>
                           <div>
                             <p className="text-sm font-medium text-gray-900">
-                              {file.name}
+                              {files[0].name}
                             </p>
                             <p className="text-xs text-gray-500">
-                              {(file.size / 1024).toFixed(1)} KB
+                              {(files[0].size / 1024).toFixed(1)} KB
                             </p>
                           </div>
                         </div>
                         <Button
-                          onClick={parseSitemap}
+                          onClick={convertSitemap}
                           disabled={isProcessing}
                           className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium shadow-sm transition-all duration-150 hover:shadow-md active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
@@ -465,6 +812,81 @@ export default function SitemapConverter() {
                           )}
                         </Button>
                       </div>
+                      {files[0].size > STREAMING_THRESHOLD_BYTES && (
+                        <div className="mt-3 pt-3 border-t border-gray-200 flex items-center justify-between gap-4">
+                          <p className="text-xs text-gray-500">
+                            Large file: stream it straight to CSV without
+                            loading the preview table.
+                          </p>
+                          <Button
+                            variant="outline"
+                            onClick={streamFileToCsv}
+                            disabled={isProcessing}
+                            className="rounded-lg shrink-0"
+                          >
+                            <Download className="w-4 h-4 mr-2" />
+                            Stream to CSV
+                          </Button>
+                        </div>
+                      )}
+                      {streamedCount !== null && (
+                        <>
+                          <p className="mt-3 text-xs text-green-700 flex items-center">
+                            <CheckCircle className="w-4 h-4 mr-1.5" />
+                            Exported {streamedCount.toLocaleString()} URLs to
+                            CSV
+                          </p>
+                          <ParseWarnings warnings={warnings} className="mt-3" />
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {files.length > 1 && (
+                    <div className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+                      <div className="flex flex-wrap items-center justify-between gap-3 pb-2 border-b border-gray-200">
+                        <p className="text-sm font-medium text-gray-900">
+                          {files.length} files selected
+                        </p>
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={dedupeMode}
+                            onValueChange={(value) =>
+                              handleDedupeChange(value as DedupeMode)
+                            }
+                          >
+                            <SelectTrigger className="w-56 rounded-lg border-gray-200 bg-white text-sm text-gray-700">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="exact">
+                                Remove duplicate URLs
+                              </SelectItem>
+                              <SelectItem value="normalized">
+                                Remove near-duplicate URLs
+                              </SelectItem>
+                              <SelectItem value="none">
+                                Keep duplicates
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            onClick={convertSitemap}
+                            disabled={isProcessing}
+                            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium shadow-sm transition-all duration-150 hover:shadow-md active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {isProcessing ? (
+                              <div className="flex items-center">
+                                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
+                                Processing...
+                              </div>
+                            ) : (
+                              "Convert & Merge"
+                            )}
+                          </Button>
+                        </div>
+                      </div>
+                      <UploadFileList files={files} statuses={fileStatuses} />
                     </div>
                   )}
                 </div>
@@ -481,7 +903,7 @@ export default function SitemapConverter() {
                   <div className="relative">
                     <Textarea
                       id="xml-content"
-                      placeholder="Paste your sitemap XML content here..."
+                      placeholder="Paste your sitemap XML, or one URL per line..."
                       value={xmlContent}
                       onChange={(e) => setXmlContent(e.target.value)}
                       className="min-h-[200px] font-mono text-sm border-gray-200 rounded-xl bg-gray-50 resize-none focus:bg-white transition-colors"
@@ -511,7 +933,7 @@ export default function SitemapConverter() {
                           </div>
                         </div>
                         <Button
-                          onClick={parseSitemap}
+                          onClick={convertSitemap}
                           disabled={isProcessing}
                           className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium shadow-sm transition-all duration-150 hover:shadow-md active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
@@ -529,13 +951,156 @@ export default function SitemapConverter() {
                   )}
                 </div>
               </TabsContent>
+
+              <TabsContent value="url" className="mt-0">
+                <div className="space-y-4">
+                  <Label
+                    htmlFor="sitemap-url"
+                    className="text-sm font-medium text-gray-700"
+                  >
+                    Sitemap URL
+                  </Label>
+                  <Input
+                    id="sitemap-url"
+                    type="url"
+                    placeholder="https://example.com/sitemap.xml"
+                    value={sitemapUrl}
+                    onChange={(e) => setSitemapUrl(e.target.value)}
+                    onKeyDown={(e) =>
+                      e.key === "Enter" && !isProcessing && convertSitemap()
+                    }
+                    className="h-12 font-mono text-sm border-gray-200 rounded-xl bg-gray-50 focus:bg-white transition-colors"
+                  />
+
+                  {sitemapUrl.trim() && (
+                    <div className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          <div className="w-10 h-10 bg-white rounded-lg flex items-center justify-center shadow-sm">
+                            <Globe
+                              className="w-5 h-5 text-gray-600"
+                              strokeWidth={1.5}
+                            />
+                          </div>
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-900">
+                              Remote Sitemap
+                            </p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {sitemapUrl.trim()}
+                            </p>
+                          </div>
+                        </div>
+                        <Button
+                          onClick={convertSitemap}
+                          disabled={isProcessing}
+                          className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium shadow-sm transition-all duration-150 hover:shadow-md active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isProcessing ? (
+                            <div className="flex items-center">
+                              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
+                              Fetching...
+                            </div>
+                          ) : (
+                            "Fetch & Convert"
+                          )}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </TabsContent>
             </Tabs>
 
+            <div className="mt-6 flex items-center gap-3">
+              <Switch
+                id="recover-xml"
+                checked={recover}
+                onCheckedChange={setRecover}
+              />
+              <Label
+                htmlFor="recover-xml"
+                className="text-sm font-medium text-gray-700"
+              >
+                Recover malformed XML
+              </Label>
+              <span className="text-xs text-gray-500">
+                Repairs common errors and lists each repair as a warning
+              </span>
+            </div>
+
+            <div className="mt-3 flex items-center gap-3">
+              <Switch
+                id="validate-sitemap"
+                checked={validate}
+                onCheckedChange={setValidate}
+              />
+              <Label
+                htmlFor="validate-sitemap"
+                className="text-sm font-medium text-gray-700"
+              >
+                Validate sitemap
+              </Label>
+              <span className="text-xs text-gray-500">
+                Checks the sitemaps.org protocol and the sitemap schemas; slower
+                on large files
+              </span>
+            </div>
+
+            {isProcessing && (
+              <div className="mt-6 flex items-center gap-4">
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>{progress?.detail ?? "Processing..."}</span>
+                    {progress && (
+                      <span className="font-medium text-gray-700">
+                        {progress.percent}%
+                      </span>
+                    )}
+                  </div>
+                  <Progress value={progress?.percent ?? 0} className="h-2" />
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={cancelProcessing}
+                  className="rounded-lg"
+                >
+                  Cancel
+                </Button>
+              </div>
+            )}
+
+            {cancelled && (
+              <div className="mt-6 flex items-center rounded-xl border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-600">
+                <Ban className="w-4 h-4 mr-2 text-gray-500" strokeWidth={1.5} />
+                Conversion cancelled.
+              </div>
+            )}
+
             {error && (
               <Alert className="mt-6 border-red-200 bg-red-50 rounded-xl">
                 <AlertCircle className="h-4 w-4 text-red-600" />
                 <AlertDescription className="text-red-800 font-medium">
                   {error}
+                  {parseError && (
+                    <div className="mt-2 font-normal">
+                      <p className="text-xs text-red-700">
+                        {parseError.line !== undefined &&
+                          `Line ${parseError.line}${
+                            parseError.column !== undefined
+                              ? `, column ${parseError.column}`
+                              : ""
+                          } · `}
+                        <span className="font-mono">{parseError.code}</span>
+                      </p>
+                      {parseError.snippet && (
+                        <div className="mt-2 rounded-lg border border-red-100 bg-white p-3">
+                          <SourceExcerptView excerpt={parseError.snippet} />
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </AlertDescription>
               </Alert>
             )}
@@ -560,79 +1125,332 @@ export default function SitemapConverter() {
                     </h2>
                     <p className="text-sm text-gray-600">
                       {sitemapData.length} URLs found
+                      {showSource &&
+                        ` in ${
+                          new Set(
+                            sitemapData.map((entry) => entry.sourceSitemap)
+                          ).size
+                        } sitemaps`}
                     </p>
                   </div>
                 </div>
-                <Button
-                  onClick={downloadCSV}
-                  className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg font-medium shadow-sm transition-all duration-150 hover:shadow-md active:scale-95"
-                >
-                  <Download className="w-4 h-4 mr-2" strokeWidth={1.5} />
-                  Download CSV
-                </Button>
+                <div className="flex items-center space-x-3">
+                  {indexSitemaps.length > 0 && (
+                    <Button
+                      variant="outline"
+                      onClick={expandSitemapIndex}
+                      disabled={isProcessing}
+                      className="px-4 py-2 rounded-lg font-medium border-gray-200 text-gray-700"
+                    >
+                      {isProcessing ? (
+                        <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin mr-2"></div>
+                      ) : (
+                        <FolderTree
+                          className="w-4 h-4 mr-2"
+                          strokeWidth={1.5}
+                        />
+                      )}
+                      Expand Index
+                    </Button>
+                  )}
+                  {showAlternates && resultsView === "pages" && (
+                    <Select
+                      value={alternatesMode}
+                      onValueChange={(value) =>
+                        setAlternatesMode(value as AlternatesExportMode)
+                      }
+                    >
+                      <SelectTrigger className="w-48 rounded-lg border-gray-200 text-sm text-gray-700">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="combined">
+                          Hreflang in one column
+                        </SelectItem>
+                        <SelectItem value="per-locale">
+                          One column per locale
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {showImages && resultsView === "pages" && (
+                    <Select
+                      value={imageMode}
+                      onValueChange={(value) =>
+                        setImageMode(value as ImageExportMode)
+                      }
+                    >
+                      <SelectTrigger className="w-48 rounded-lg border-gray-200 text-sm text-gray-700">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="aggregate">
+                          Images as columns
+                        </SelectItem>
+                        <SelectItem value="per-image">
+                          One row per image
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button
+                    onClick={downloadCSV}
+                    className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg font-medium shadow-sm transition-all duration-150 hover:shadow-md active:scale-95"
+                  >
+                    <Download className="w-4 h-4 mr-2" strokeWidth={1.5} />
+                    Download CSV
+                  </Button>
+                </div>
               </div>
             </div>
 
-            <div className="overflow-auto max-h-96">
-              <Table>
-                <TableHeader>
-                  <TableRow className="bg-gray-50 border-b border-gray-100">
-                    <TableHead className="font-medium text-gray-700 py-4">
-                      URL
-                    </TableHead>
-                    <TableHead className="font-medium text-gray-700 py-4">
-                      Last Modified
-                    </TableHead>
-                    <TableHead className="font-medium text-gray-700 py-4">
-                      Change Frequency
-                    </TableHead>
-                    <TableHead className="font-medium text-gray-700 py-4">
-                      Priority
-                    </TableHead>
-                    <TableHead className="font-medium text-gray-700 py-4">
-                      Alternates
-                    </TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {sitemapData.slice(0, 100).map((entry, index) => (
-                    <TableRow
-                      key={index}
-                      className="border-b border-gray-50 hover:bg-gray-25 transition-colors"
-                    >
-                      <TableCell className="font-mono text-sm text-gray-900 py-4 max-w-xs truncate">
-                        {entry.url}
-                      </TableCell>
-                      <TableCell className="text-sm text-gray-600 py-4">
-                        {entry.lastModified || "—"}
-                      </TableCell>
-                      <TableCell className="py-4">
-                        {entry.changeFrequency && (
-                          <Badge
-                            variant="outline"
-                            className="bg-gray-50 text-gray-700 border-gray-200 rounded-md"
-                          >
-                            {entry.changeFrequency}
-                          </Badge>
-                        )}
-                      </TableCell>
-                      <TableCell className="text-sm text-gray-600 py-4">
-                        {entry.priority || "—"}
-                      </TableCell>
-                      <TableCell className="text-sm text-gray-600 py-4 max-w-xs truncate">
-                        {entry.alternates || "—"}
-                      </TableCell>
-                    </TableRow>
+            {mergeStats && (
+              <div className="mx-8 mt-6">
+                <MergeSummary stats={mergeStats} />
+              </div>
+            )}
+
+            {cleaned.length > 0 && (
+              <div className="mx-8 mt-6 rounded-xl border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-800">
+                <p className="flex items-center font-medium">
+                  <Sparkles className="w-4 h-4 mr-2" strokeWidth={1.5} />
+                  Cleaned up the XML before converting it
+                </p>
+                <ul className="mt-2 ml-6 list-disc space-y-1 text-xs">
+                  {cleaned.map((change) => (
+                    <li key={change}>{change}</li>
                   ))}
-                </TableBody>
-              </Table>
-              {sitemapData.length > 100 && (
-                <div className="p-6 text-center text-sm text-gray-500 bg-gray-50 border-t border-gray-100">
-                  Showing first 100 entries. Download CSV to access all{" "}
-                  {sitemapData.length} URLs.
+                </ul>
+              </div>
+            )}
+
+            <ParseWarnings warnings={warnings} className="mx-8 mt-6" />
+
+            <Tabs value={resultsView} onValueChange={setResultsView}>
+              {(showVideos || showAlternates || showProtocol || showSchema) && (
+                <div className="px-8 pt-6">
+                  <div className="bg-gray-50 p-1 rounded-xl inline-flex">
+                    <TabsList className="bg-transparent p-0 h-auto">
+                      <TabsTrigger
+                        value="pages"
+                        className="px-4 py-2 text-sm font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=active]:text-gray-900 text-gray-600 transition-all duration-150"
+                      >
+                        Pages
+                      </TabsTrigger>
+                      {showVideos && (
+                        <TabsTrigger
+                          value="videos"
+                          className="px-4 py-2 text-sm font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=active]:text-gray-900 text-gray-600 transition-all duration-150"
+                        >
+                          Videos
+                        </TabsTrigger>
+                      )}
+                      {showAlternates && (
+                        <TabsTrigger
+                          value="hreflang"
+                          className="px-4 py-2 text-sm font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=active]:text-gray-900 text-gray-600 transition-all duration-150"
+                        >
+                          Hreflang Audit ({hreflangFindings.length})
+                        </TabsTrigger>
+                      )}
+                      {showProtocol && (
+                        <TabsTrigger
+                          value="protocol"
+                          className="px-4 py-2 text-sm font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=active]:text-gray-900 text-gray-600 transition-all duration-150"
+                        >
+                          Protocol ({protocolFindings.length})
+                        </TabsTrigger>
+                      )}
+                      {showSchema && (
+                        <TabsTrigger
+                          value="schema"
+                          className="px-4 py-2 text-sm font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm data-[state=active]:text-gray-900 text-gray-600 transition-all duration-150"
+                        >
+                          Schema ({schemaErrors.length})
+                        </TabsTrigger>
+                      )}
+                    </TabsList>
+                  </div>
                 </div>
               )}
-            </div>
+
+              <TabsContent value="pages" className="mt-0">
+                <div className="overflow-auto max-h-96">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gray-50 border-b border-gray-100">
+                        <TableHead className="font-medium text-gray-700 py-4">
+                          URL
+                        </TableHead>
+                        {showSource && (
+                          <TableHead className="font-medium text-gray-700 py-4">
+                            Source Sitemap
+                          </TableHead>
+                        )}
+                        <TableHead className="font-medium text-gray-700 py-4">
+                          Last Modified
+                        </TableHead>
+                        <TableHead className="font-medium text-gray-700 py-4">
+                          Change Frequency
+                        </TableHead>
+                        <TableHead className="font-medium text-gray-700 py-4">
+                          Priority
+                        </TableHead>
+                        <TableHead className="font-medium text-gray-700 py-4">
+                          Alternates
+                        </TableHead>
+                        {showImages && (
+                          <TableHead className="font-medium text-gray-700 py-4">
+                            Images
+                          </TableHead>
+                        )}
+                        {showVideos && (
+                          <TableHead className="font-medium text-gray-700 py-4">
+                            Videos
+                          </TableHead>
+                        )}
+                        {showNews && (
+                          <>
+                            <TableHead className="font-medium text-gray-700 py-4">
+                              News Title
+                            </TableHead>
+                            <TableHead className="font-medium text-gray-700 py-4">
+                              Publication
+                            </TableHead>
+                            <TableHead className="font-medium text-gray-700 py-4">
+                              Published
+                            </TableHead>
+                            <TableHead className="font-medium text-gray-700 py-4">
+                              Keywords
+                            </TableHead>
+                          </>
+                        )}
+                        {showFeed && (
+                          <>
+                            <TableHead className="font-medium text-gray-700 py-4">
+                              Title
+                            </TableHead>
+                            <TableHead className="font-medium text-gray-700 py-4">
+                              Categories
+                            </TableHead>
+                          </>
+                        )}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sitemapData.slice(0, 100).map((entry, index) => (
+                        <TableRow
+                          key={index}
+                          className="border-b border-gray-50 hover:bg-gray-25 transition-colors"
+                        >
+                          <TableCell className="font-mono text-sm text-gray-900 py-4 max-w-xs truncate">
+                            {entry.url}
+                          </TableCell>
+                          {showSource && (
+                            <TableCell className="font-mono text-sm text-gray-600 py-4 max-w-xs truncate">
+                              {entry.sourceSitemap}
+                            </TableCell>
+                          )}
+                          <TableCell className="text-sm text-gray-600 py-4">
+                            {entry.lastModified || "—"}
+                          </TableCell>
+                          <TableCell className="py-4">
+                            {entry.changeFrequency && (
+                              <Badge
+                                variant="outline"
+                                className="bg-gray-50 text-gray-700 border-gray-200 rounded-md"
+                              >
+                                {entry.changeFrequency}
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-600 py-4">
+                            {entry.priority || "—"}
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-600 py-4 max-w-xs truncate">
+                            {formatAlternates(entry.alternates) || "—"}
+                          </TableCell>
+                          {showImages && (
+                            <TableCell
+                              className="text-sm text-gray-600 py-4"
+                              title={entry.images
+                                ?.map((image) => image.loc)
+                                .join("\n")}
+                            >
+                              {entry.images?.length || "—"}
+                            </TableCell>
+                          )}
+                          {showVideos && (
+                            <TableCell className="text-sm text-gray-600 py-4">
+                              {entry.videos?.length || "—"}
+                            </TableCell>
+                          )}
+                          {showNews && (
+                            <>
+                              <TableCell className="text-sm text-gray-900 py-4 max-w-xs truncate">
+                                {entry.news?.title || "—"}
+                              </TableCell>
+                              <TableCell className="text-sm text-gray-600 py-4">
+                                {entry.news?.publicationName
+                                  ? `${entry.news.publicationName} (${entry.news.publicationLanguage})`
+                                  : "—"}
+                              </TableCell>
+                              <TableCell className="text-sm text-gray-600 py-4">
+                                {entry.news?.publicationDate || "—"}
+                              </TableCell>
+                              <TableCell className="text-sm text-gray-600 py-4 max-w-xs truncate">
+                                {entry.news?.keywords?.join(", ") || "—"}
+                              </TableCell>
+                            </>
+                          )}
+                          {showFeed && (
+                            <>
+                              <TableCell
+                                className="text-sm text-gray-900 py-4 max-w-xs truncate"
+                                title={entry.feed?.author}
+                              >
+                                {entry.feed?.title || "—"}
+                              </TableCell>
+                              <TableCell className="text-sm text-gray-600 py-4 max-w-xs truncate">
+                                {entry.feed?.categories?.join(", ") || "—"}
+                              </TableCell>
+                            </>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {sitemapData.length > 100 && (
+                    <div className="p-6 text-center text-sm text-gray-500 bg-gray-50 border-t border-gray-100">
+                      Showing first 100 entries. Download CSV to access all{" "}
+                      {sitemapData.length} URLs.
+                    </div>
+                  )}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="videos" className="mt-0">
+                <div className="overflow-auto max-h-96">
+                  <VideoTable entries={sitemapData} />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="hreflang" className="mt-0">
+                <div className="overflow-auto max-h-96">
+                  <HreflangAuditTable findings={hreflangFindings} />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="protocol" className="mt-0">
+                <div className="overflow-auto max-h-96">
+                  <ProtocolFindingsTable findings={protocolFindings ?? []} />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="schema" className="mt-0">
+                <SchemaErrorsPanel errors={schemaErrors ?? []} />
+              </TabsContent>
+            </Tabs>
           </div>
         )}
 
@@ -0,0 +1,98 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { FindingSeverity, HreflangFinding } from "@/lib/sitemap";
+import { CheckCircle } from "lucide-react";
+
+const PREVIEW_LIMIT = 100;
+
+const severityStyles: Record<FindingSeverity, string> = {
+  error: "bg-red-50 text-red-700 border-red-200",
+  warning: "bg-amber-50 text-amber-700 border-amber-200",
+  info: "bg-gray-50 text-gray-700 border-gray-200",
+};
+
+export function HreflangAuditTable({
+  findings,
+}: {
+  findings: HreflangFinding[];
+}) {
+  if (findings.length === 0) {
+    return (
+      <div className="p-8 flex items-center justify-center text-sm text-gray-600">
+        <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
+        No hreflang issues found
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-gray-50 border-b border-gray-100">
+            <TableHead className="font-medium text-gray-700 py-4">
+              Severity
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Check
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              URL
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Hreflang
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Message
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {findings.slice(0, PREVIEW_LIMIT).map((finding, index) => (
+            <TableRow
+              key={index}
+              className="border-b border-gray-50 hover:bg-gray-25 transition-colors"
+            >
+              <TableCell className="py-4">
+                <Badge
+                  variant="outline"
+                  className={`${severityStyles[finding.severity]} rounded-md`}
+                >
+                  {finding.severity}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-sm text-gray-600 py-4">
+                {finding.check}
+              </TableCell>
+              <TableCell className="font-mono text-sm text-gray-900 py-4 max-w-xs truncate">
+                {finding.url}
+              </TableCell>
+              <TableCell className="text-sm text-gray-600 py-4">
+                {finding.hreflang || "—"}
+              </TableCell>
+              <TableCell
+                className="text-sm text-gray-600 py-4 max-w-xs truncate"
+                title={finding.href}
+              >
+                {finding.message}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {findings.length > PREVIEW_LIMIT && (
+        <div className="p-6 text-center text-sm text-gray-500 bg-gray-50 border-t border-gray-100">
+          Showing first {PREVIEW_LIMIT} findings. Download CSV to access all{" "}
+          {findings.length} findings.
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+import type { MergeStats } from "@/lib/sitemap";
+import { Files } from "lucide-react";
+
+export function MergeSummary({ stats }: { stats: MergeStats }) {
+  return (
+    <details className="rounded-xl border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-700">
+      <summary className="flex items-center cursor-pointer font-medium">
+        <Files className="w-4 h-4 mr-2" strokeWidth={1.5} />
+        Merged {stats.sources.length} files: {stats.total.toLocaleString()}{" "}
+        entries, {stats.duplicates.toLocaleString()} duplicates removed,{" "}
+        {stats.overlapping.toLocaleString()} URLs in more than one file
+      </summary>
+      <table className="mt-3 w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-medium py-1 pr-4">File</th>
+            <th className="font-medium py-1 pr-4 text-right">URLs</th>
+            <th className="font-medium py-1 text-right">
+              Also in another file
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.sources.map((source, index) => (
+            <tr key={index} className="border-t border-gray-200">
+              <td className="py-1 pr-4 font-mono break-all">{source.name}</td>
+              <td className="py-1 pr-4 text-right">
+                {source.urls.toLocaleString()}
+              </td>
+              <td className="py-1 text-right">
+                {source.shared.toLocaleString()}
+                {source.urls > 0 &&
+                  ` (${Math.round((source.shared / source.urls) * 100)}%)`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
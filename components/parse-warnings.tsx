@@ -0,0 +1,34 @@
+import { AlertTriangle } from "lucide-react";
+
+// Shown in full up to this many; the rest are only counted
+const PREVIEW_LIMIT = 100;
+
+export function ParseWarnings({
+  warnings,
+  className = "",
+}: {
+  warnings: string[];
+  className?: string;
+}) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <details
+      className={`rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800 ${className}`}
+    >
+      <summary className="flex items-center cursor-pointer font-medium">
+        <AlertTriangle className="w-4 h-4 mr-2" strokeWidth={1.5} />
+        {warnings.length} {warnings.length === 1 ? "warning" : "warnings"} while
+        parsing
+      </summary>
+      <ul className="mt-2 space-y-1 max-h-40 overflow-auto font-mono text-xs">
+        {warnings.slice(0, PREVIEW_LIMIT).map((warning, index) => (
+          <li key={index}>{warning}</li>
+        ))}
+        {warnings.length > PREVIEW_LIMIT && (
+          <li>…and {warnings.length - PREVIEW_LIMIT} more</li>
+        )}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,111 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { FindingSeverity, ProtocolFinding } from "@/lib/sitemap";
+import { CheckCircle, ExternalLink } from "lucide-react";
+
+const PREVIEW_LIMIT = 100;
+
+const severityStyles: Record<FindingSeverity, string> = {
+  error: "bg-red-50 text-red-700 border-red-200",
+  warning: "bg-amber-50 text-amber-700 border-amber-200",
+  info: "bg-gray-50 text-gray-700 border-gray-200",
+};
+
+// Relative or malformed <loc> values would resolve against this site
+const isLinkable = (url: string) => /^https?:\/\//i.test(url);
+
+export function ProtocolFindingsTable({
+  findings,
+}: {
+  findings: ProtocolFinding[];
+}) {
+  if (findings.length === 0) {
+    return (
+      <div className="p-8 flex items-center justify-center text-sm text-gray-600">
+        <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
+        The sitemap follows the sitemaps.org protocol
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-gray-50 border-b border-gray-100">
+            <TableHead className="font-medium text-gray-700 py-4">
+              Severity
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Check
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Row
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              URL
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Message
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {findings.slice(0, PREVIEW_LIMIT).map((finding, index) => (
+            <TableRow
+              key={index}
+              className="border-b border-gray-50 hover:bg-gray-25 transition-colors"
+            >
+              <TableCell className="py-4">
+                <Badge
+                  variant="outline"
+                  className={`${severityStyles[finding.severity]} rounded-md`}
+                >
+                  {finding.severity}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-sm text-gray-600 py-4">
+                {finding.check}
+              </TableCell>
+              <TableCell className="text-sm text-gray-600 py-4">
+                {finding.row ?? "—"}
+              </TableCell>
+              <TableCell className="font-mono text-sm text-gray-900 py-4 max-w-xs truncate">
+                {finding.url && isLinkable(finding.url) ? (
+                  <a
+                    href={finding.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center hover:text-blue-600"
+                    title={finding.url}
+                  >
+                    <span className="truncate">{finding.url}</span>
+                    <ExternalLink className="w-3 h-3 ml-1 shrink-0" />
+                  </a>
+                ) : (
+                  finding.url || "—"
+                )}
+              </TableCell>
+              <TableCell className="text-sm text-gray-600 py-4 max-w-xs truncate">
+                {finding.message}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {findings.length > PREVIEW_LIMIT && (
+        <div className="p-6 text-center text-sm text-gray-500 bg-gray-50 border-t border-gray-100">
+          Showing first {PREVIEW_LIMIT} findings. Download CSV to access all{" "}
+          {findings.length} findings.
+        </div>
+      )}
+    </>
+  );
+}
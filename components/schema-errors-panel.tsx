@@ -0,0 +1,83 @@
+"use client";
+
+import { SourceExcerptView } from "@/components/source-excerpt";
+import { SCHEMAS, type SchemaError } from "@/lib/sitemap";
+import { CheckCircle } from "lucide-react";
+import { useState } from "react";
+
+// The schemas are transcribed into code rather than bundled as XSD files, so
+// say which files they follow and that only part of them is checked
+function SchemaSources() {
+  const locations = SCHEMAS.flatMap((schema) => schema.locations);
+
+  return (
+    <p className="px-6 py-3 text-xs text-gray-500 border-b border-gray-100">
+      Checked against built-in transcriptions of{" "}
+      {locations.map((location, index) => (
+        <span key={location}>
+          {index > 0 && ", "}
+          <a
+            href={location}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline hover:text-gray-700"
+          >
+            {location.split("/").pop()}
+          </a>
+        </span>
+      ))}
+      . Only the elements, occurrences, attributes and value types of these
+      schemas are checked, not every rule of the XSD files.
+    </p>
+  );
+}
+
+export function SchemaErrorsPanel({ errors }: { errors: SchemaError[] }) {
+  const [selected, setSelected] = useState(0);
+
+  if (errors.length === 0) {
+    return (
+      <>
+        <SchemaSources />
+        <div className="p-8 flex items-center justify-center text-sm text-gray-600">
+          <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
+          The sitemap is valid against the sitemap schemas
+        </div>
+      </>
+    );
+  }
+
+  const current = errors[Math.min(selected, errors.length - 1)];
+
+  return (
+    <>
+      <SchemaSources />
+      <div className="grid md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-gray-100">
+        <ul className="max-h-96 overflow-auto">
+          {errors.map((error, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                onClick={() => setSelected(index)}
+                className={`w-full text-left px-6 py-3 border-b border-gray-50 transition-colors ${
+                  error === current ? "bg-blue-50" : "hover:bg-gray-50"
+                }`}
+              >
+                <span className="font-mono text-xs text-gray-500 mr-2">
+                  {error.line}:{error.column}
+                </span>
+                <span className="text-sm text-gray-800">{error.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="p-6 bg-gray-50">
+          <p className="text-xs font-medium text-gray-500 mb-3">
+            Line {current.line}, column {current.column}
+          </p>
+          <SourceExcerptView excerpt={current.excerpt} />
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { SITEMAP_FILE_PATTERN } from "@/lib/sitemap";
+import { FolderOpen, Upload } from "lucide-react";
+import type React from "react";
+import { useState } from "react";
+
+// Accepted by the file picker and, inside dropped folders, by name
+const ACCEPT = ".xml,.txt,.gz,.zip";
+const FOLDER_FILE_PATTERN = new RegExp(
+  `${SITEMAP_FILE_PATTERN.source}|\\.zip$`,
+  "i"
+);
+
+// Names a file by its path below the dropped or chosen folder
+const withPath = (file: File, path: string) =>
+  path && path !== file.name
+    ? new File([file], path, {
+        type: file.type,
+        lastModified: file.lastModified,
+      })
+    : file;
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) =>
+    reader.readEntries(resolve, reject)
+  );
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// Collects the files of a dropped entry, walking folders recursively. Only
+// sitemap files and archives are taken from folders.
+const collectEntry = async (
+  entry: FileSystemEntry,
+  files: File[],
+  inFolder: boolean
+) => {
+  if (entry.isFile) {
+    if (inFolder && !FOLDER_FILE_PATTERN.test(entry.name)) return;
+    const file = await readFile(entry as FileSystemFileEntry);
+    files.push(withPath(file, entry.fullPath.replace(/^\//, "")));
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns folders in batches until it returns none
+    for (;;) {
+      const batch = await readEntries(reader);
+      if (batch.length === 0) break;
+      for (const child of batch) await collectEntry(child, files, true);
+    }
+  }
+};
+
+const collectDroppedFiles = async (dataTransfer: DataTransfer) => {
+  // Entries must be taken before the first await, while the drop event's
+  // data is still readable
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry?.());
+  if (entries.length === 0 || entries.some((entry) => !entry)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry as FileSystemEntry, files, false);
+  }
+  return files;
+};
+
+export function SitemapDropZone({
+  onFiles,
+  onError,
+  disabled,
+}: {
+  onFiles: (files: File[]) => void;
+  // Called when a dropped folder or file cannot be read
+  onError: (message: string) => void;
+  disabled?: boolean;
+}) {
+  const [dragging, setDragging] = useState(false);
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    if (disabled) return;
+    try {
+      const files = await collectDroppedFiles(event.dataTransfer);
+      if (files.length > 0) onFiles(files);
+    } catch (err) {
+      onError(
+        `Could not read the dropped files: ${
+          err instanceof Error ? err.message : "unknown error"
+        }`
+      );
+    }
+  };
+
+  const handleInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+      .filter(
+        (file) =>
+          !file.webkitRelativePath || FOLDER_FILE_PATTERN.test(file.name)
+      )
+      .map((file) => withPath(file, file.webkitRelativePath));
+    // Allow choosing the same files again
+    event.target.value = "";
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div
+      onDragOver={(event) => {
+        event.preventDefault();
+        if (!disabled) setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={`rounded-xl border-2 border-dashed px-6 py-8 text-center transition-colors ${
+        dragging ? "border-blue-400 bg-blue-50" : "border-gray-200 bg-gray-50"
+      }`}
+    >
+      <Upload
+        className="w-6 h-6 mx-auto mb-3 text-gray-500"
+        strokeWidth={1.5}
+      />
+      <p className="text-sm font-medium text-gray-700">
+        Drop sitemap files, folders or .zip archives here
+      </p>
+      <p className="mt-1 text-xs text-gray-500">
+        .xml, .txt and .gz sitemaps are accepted
+      </p>
+      <div className="mt-4 flex items-center justify-center gap-2">
+        <label className="relative inline-flex items-center rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 cursor-pointer">
+          <input
+            id="sitemap-file"
+            type="file"
+            accept={ACCEPT}
+            multiple
+            disabled={disabled}
+            onChange={handleInput}
+            className="sr-only"
+          />
+          Choose Files
+        </label>
+        <label className="relative inline-flex items-center rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 cursor-pointer">
+          <input
+            type="file"
+            multiple
+            disabled={disabled}
+            onChange={handleInput}
+            className="sr-only"
+            // Not in React's input typings
+            {...{ webkitdirectory: "" }}
+          />
+          <FolderOpen className="w-4 h-4 mr-2" strokeWidth={1.5} />
+          Choose Folder
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import type { SourceExcerpt } from "@/lib/sitemap";
+
+// Numbered source lines with the line of interest highlighted and a caret
+// under its column
+export function SourceExcerptView({ excerpt }: { excerpt: SourceExcerpt }) {
+  return (
+    <pre className="font-mono text-xs leading-5 text-gray-700 overflow-x-auto">
+      {excerpt.lines.map(({ number, text }) => (
+        <div
+          key={number}
+          className={number === excerpt.line ? "bg-red-50 text-red-800" : ""}
+        >
+          <span className="inline-block w-12 pr-3 text-right text-gray-400 select-none">
+            {number}
+          </span>
+          {text}
+          {number === excerpt.line && (
+            <div>
+              <span className="inline-block w-12 pr-3 select-none" />
+              {" ".repeat(excerpt.caret)}^
+            </div>
+          )}
+        </div>
+      ))}
+    </pre>
+  );
+}
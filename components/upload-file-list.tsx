@@ -0,0 +1,83 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CheckCircle, File } from "lucide-react";
+
+// Where a selected file is in a multi-file conversion
+export type FileParseStatus =
+  | { state: "pending" }
+  | { state: "parsing" }
+  | { state: "done"; count: number; warnings: number }
+  | { state: "error"; message: string };
+
+const statusStyles: Record<FileParseStatus["state"], string> = {
+  pending: "bg-gray-50 text-gray-600 border-gray-200",
+  parsing: "bg-blue-50 text-blue-700 border-blue-200",
+  done: "bg-green-50 text-green-700 border-green-200",
+  error: "bg-red-50 text-red-700 border-red-200",
+};
+
+const describeStatus = (status: FileParseStatus) => {
+  switch (status.state) {
+    case "pending":
+      return "Waiting";
+    case "parsing":
+      return "Parsing…";
+    case "done":
+      return `${status.count.toLocaleString()} URLs`;
+    case "error":
+      return "Failed";
+  }
+};
+
+export function UploadFileList({
+  files,
+  statuses,
+}: {
+  files: File[];
+  statuses: FileParseStatus[];
+}) {
+  return (
+    <ul className="divide-y divide-gray-100 max-h-72 overflow-auto">
+      {files.map((file, index) => {
+        const status = statuses[index] ?? { state: "pending" };
+        return (
+          <li key={index} className="flex items-start gap-3 py-3">
+            <File
+              className="w-4 h-4 mt-0.5 text-gray-500 shrink-0"
+              strokeWidth={1.5}
+            />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-medium text-gray-900 truncate">
+                {file.name}
+              </p>
+              <p className="text-xs text-gray-500">
+                {(file.size / 1024).toFixed(1)} KB
+                {status.state === "done" && status.warnings > 0 && (
+                  <span className="text-amber-700">
+                    {" "}
+                    · {status.warnings}{" "}
+                    {status.warnings === 1 ? "warning" : "warnings"}
+                  </span>
+                )}
+              </p>
+              {status.state === "error" && (
+                <p className="mt-1 text-xs text-red-700 flex items-start">
+                  <AlertCircle className="w-3.5 h-3.5 mr-1 mt-px shrink-0" />
+                  {status.message}
+                </p>
+              )}
+            </div>
+            <Badge
+              variant="outline"
+              className={`shrink-0 font-medium ${statusStyles[status.state]}`}
+            >
+              {status.state === "done" && (
+                <CheckCircle className="w-3 h-3 mr-1" />
+              )}
+              {describeStatus(status)}
+            </Badge>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,109 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { SitemapEntry } from "@/lib/sitemap";
+
+const PREVIEW_LIMIT = 100;
+
+const formatDuration = (seconds?: string) => {
+  const total = Number(seconds);
+  if (!seconds || !Number.isFinite(total)) return "—";
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(Math.round(total % 60)).padStart(2, "0")}`;
+};
+
+export function VideoTable({ entries }: { entries: SitemapEntry[] }) {
+  const videos = entries.flatMap((entry) =>
+    (entry.videos ?? []).map((video) => ({ pageUrl: entry.url, video }))
+  );
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-gray-50 border-b border-gray-100">
+            <TableHead className="font-medium text-gray-700 py-4">
+              Page URL
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Title
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Duration
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Published
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Family Friendly
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Restriction
+            </TableHead>
+            <TableHead className="font-medium text-gray-700 py-4">
+              Content / Player
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {videos.slice(0, PREVIEW_LIMIT).map(({ pageUrl, video }, index) => (
+            <TableRow
+              key={index}
+              className="border-b border-gray-50 hover:bg-gray-25 transition-colors"
+            >
+              <TableCell className="font-mono text-sm text-gray-900 py-4 max-w-xs truncate">
+                {pageUrl}
+              </TableCell>
+              <TableCell
+                className="text-sm text-gray-900 py-4 max-w-xs truncate"
+                title={video.description}
+              >
+                {video.title || "—"}
+              </TableCell>
+              <TableCell className="text-sm text-gray-600 py-4">
+                {formatDuration(video.duration)}
+              </TableCell>
+              <TableCell className="text-sm text-gray-600 py-4">
+                {video.publicationDate || "—"}
+              </TableCell>
+              <TableCell className="py-4">
+                {video.familyFriendly ? (
+                  <Badge
+                    variant="outline"
+                    className="bg-gray-50 text-gray-700 border-gray-200 rounded-md"
+                  >
+                    {video.familyFriendly}
+                  </Badge>
+                ) : (
+                  "—"
+                )}
+              </TableCell>
+              <TableCell className="text-sm text-gray-600 py-4">
+                {video.restriction
+                  ? `${video.restrictionRelationship || "allow"}: ${
+                      video.restriction
+                    }`
+                  : "—"}
+              </TableCell>
+              <TableCell className="font-mono text-sm text-gray-600 py-4 max-w-xs truncate">
+                {video.contentLoc || video.playerLoc || "—"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {videos.length > PREVIEW_LIMIT && (
+        <div className="p-6 text-center text-sm text-gray-500 bg-gray-50 border-t border-gray-100">
+          Showing first {PREVIEW_LIMIT} videos. Download CSV to access all{" "}
+          {videos.length} videos.
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,9 +1,13 @@
+import { useMemo } from "react"
+
 export class FaviconManager {
   private static instance: FaviconManager
-  private originalFavicon = "/favicon-32x32.png"
+  private originalFavicon = "/favicon.png"
   private processingFavicon = "/favicon-processing.png"
   private currentFavicon: HTMLLinkElement | null = null
-  private animationFrame: number | null = null
+  private canvas: HTMLCanvasElement | null = null
+  private baseIcon: Promise<HTMLImageElement | null> | null = null
+  private progress = 0
   private isProcessing = false
 
   private constructor() {
@@ -38,72 +42,74 @@ export class FaviconManager {
     if (this.isProcessing) return
 
     this.isProcessing = true
-    this.animateProcessing()
+    this.updateProgress(0)
   }
 
   stopProcessing() {
     this.isProcessing = false
-
-    if (this.animationFrame) {
-      cancelAnimationFrame(this.animationFrame)
-      this.animationFrame = null
-    }
-
+    this.progress = 0
     this.updateFavicon(this.originalFavicon)
   }
 
-  private animateProcessing() {
+  // Redraws the favicon with a ring filled to `percent` (0-100)
+  updateProgress(percent: number) {
     if (!this.isProcessing) return
 
-    // Create a canvas to draw animated favicon
-    const canvas = document.createElement("canvas")
-    const ctx = canvas.getContext("2d")
-    canvas.width = 32
-    canvas.height = 32
-
-    if (!ctx) return
-
-    const img = new Image()
-    img.crossOrigin = "anonymous"
-
-    img.onload = () => {
-      let rotation = 0
-
-      const animate = () => {
-        if (!this.isProcessing) return
-
-        // Clear canvas
-        ctx.clearRect(0, 0, 32, 32)
-
-        // Draw base icon
-        ctx.drawImage(img, 0, 0, 32, 32)
-
-        // Draw spinning indicator
-        ctx.save()
-        ctx.translate(24, 8) // Top right corner
-        ctx.rotate(rotation)
+    this.progress = Math.min(Math.max(percent, 0), 100)
+    this.loadBaseIcon()
+      .then((img) => this.drawProgress(img))
+      .catch((error) => console.error("Error drawing favicon progress:", error))
+  }
 
-        // Draw spinning circle
-        ctx.strokeStyle = "#3b82f6" // Blue color
-        ctx.lineWidth = 2
-        ctx.beginPath()
-        ctx.arc(0, 0, 4, 0, Math.PI * 1.5)
-        ctx.stroke()
+  // Resolves to null when the icon cannot be loaded, so the ring is still drawn
+  private loadBaseIcon(): Promise<HTMLImageElement | null> {
+    if (!this.baseIcon) {
+      this.baseIcon = new Promise((resolve) => {
+        const img = new Image()
+        img.crossOrigin = "anonymous"
+        img.onload = () => resolve(img)
+        img.onerror = () => resolve(null)
+        img.src = this.originalFavicon
+      })
+    }
+    return this.baseIcon
+  }
 
-        ctx.restore()
+  private drawProgress(img: HTMLImageElement | null) {
+    // The icon may have loaded after processing finished
+    if (!this.isProcessing) return
 
-        // Update favicon
-        const dataUrl = canvas.toDataURL("image/png")
-        this.updateFavicon(dataUrl)
+    if (!this.canvas) {
+      this.canvas = document.createElement("canvas")
+      this.canvas.width = 32
+      this.canvas.height = 32
+    }
+    const ctx = this.canvas.getContext("2d")
+    if (!ctx) return
 
-        rotation += 0.2
-        this.animationFrame = requestAnimationFrame(animate)
-      }
+    ctx.clearRect(0, 0, 32, 32)
 
-      animate()
+    // Draw base icon, shrunk to leave room for the ring
+    if (img) {
+      ctx.drawImage(img, 6, 6, 20, 20)
     }
 
-    img.src = this.originalFavicon
+    // Draw ring track
+    ctx.lineWidth = 4
+    ctx.strokeStyle = "#e5e7eb" // Gray color
+    ctx.beginPath()
+    ctx.arc(16, 16, 14, 0, Math.PI * 2)
+    ctx.stroke()
+
+    // Draw progress arc, clockwise from the top
+    ctx.strokeStyle = "#3b82f6" // Blue color
+    ctx.lineCap = "round"
+    ctx.beginPath()
+    ctx.arc(16, 16, 14, -Math.PI / 2, -Math.PI / 2 + (Math.PI * 2 * this.progress) / 100)
+    ctx.stroke()
+
+    // Update favicon
+    this.updateFavicon(this.canvas.toDataURL("image/png"))
   }
 
   // Alternative simpler approach - just switch between two states
@@ -120,14 +126,16 @@ export class FaviconManager {
   }
 }
 
-// Hook for React components
-export const useFavicon = () => {
-  const faviconManager = FaviconManager.getInstance()
-
-  return {
-    startProcessing: () => faviconManager.startProcessing(),
-    stopProcessing: () => faviconManager.stopProcessing(),
-    startSimpleProcessing: () => faviconManager.startSimpleProcessing(),
-    stopSimpleProcessing: () => faviconManager.stopSimpleProcessing(),
-  }
-}
+// Hook for React components; the returned functions are stable across renders
+export const useFavicon = () =>
+  useMemo(() => {
+    const faviconManager = FaviconManager.getInstance()
+
+    return {
+      startProcessing: () => faviconManager.startProcessing(),
+      stopProcessing: () => faviconManager.stopProcessing(),
+      updateProgress: (percent: number) => faviconManager.updateProgress(percent),
+      startSimpleProcessing: () => faviconManager.startSimpleProcessing(),
+      stopSimpleProcessing: () => faviconManager.stopSimpleProcessing(),
+    }
+  }, [])
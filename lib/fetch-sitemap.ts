@@ -0,0 +1,70 @@
+import {
+  formatBytes,
+  guardedFetch,
+  GuardedFetchError,
+  type GuardedFetchOptions,
+} from "@/lib/guarded-fetch";
+import {
+  decodeSitemapBytes,
+  isGzip,
+  MAX_SITEMAP_BYTES,
+  type DecodedSitemap,
+} from "@/lib/sitemap";
+import { promisify } from "node:util";
+import { gunzip } from "node:zlib";
+
+const gunzipAsync = promisify(gunzip);
+
+export const FETCH_TIMEOUT_MS = 20_000;
+
+// Response header of /api/fetch carrying the decoding warnings, as
+// URI-encoded JSON since headers are limited to ASCII
+export const SITEMAP_WARNINGS_HEADER = "X-Sitemap-Warnings";
+
+/**
+ * Downloads a sitemap through `guardedFetch` and returns its raw XML.
+ * Redirects are followed, gzipped files (.xml.gz) are decompressed, and both
+ * the download and the decompressed XML are capped at `maxBytes`. The XML is
+ * decoded in the encoding it declares, and `warnings` says when the bytes
+ * contradicted that declaration.
+ */
+export const fetchSitemapText = async (
+  url: string,
+  {
+    maxBytes = MAX_SITEMAP_BYTES,
+    timeoutMs = FETCH_TIMEOUT_MS,
+    ...options
+  }: GuardedFetchOptions = {}
+): Promise<DecodedSitemap> => {
+  const response = await guardedFetch(url, {
+    ...options,
+    maxBytes,
+    timeoutMs,
+    headers: { Accept: "application/xml, text/xml, */*" },
+  });
+  if (response.status < 200 || response.status >= 300) {
+    throw new GuardedFetchError(
+      "HTTP_ERROR",
+      `Server responded with HTTP ${response.status}`
+    );
+  }
+
+  if (!isGzip(response.body)) {
+    return decodeSitemapBytes(response.body);
+  }
+
+  try {
+    const xml = await gunzipAsync(response.body, { maxOutputLength: maxBytes });
+    return decodeSitemapBytes(xml);
+  } catch (error) {
+    throw (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE"
+      ? new GuardedFetchError(
+          "RESPONSE_TOO_LARGE",
+          `The sitemap is larger than ${formatBytes(maxBytes)} uncompressed`
+        )
+      : new GuardedFetchError(
+          "DECOMPRESSION_FAILED",
+          "The gzipped sitemap could not be decompressed"
+        );
+  }
+};
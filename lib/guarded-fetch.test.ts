@@ -0,0 +1,350 @@
+import http, { type RequestListener } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  allowedPortsFromEnv,
+  createRateLimiter,
+  DEFAULT_ALLOWED_PORTS,
+  getClientIp,
+  guardedFetch,
+  GuardedFetchError,
+  isBlockedAddress,
+  trustedProxyHopsFromEnv,
+} from "./guarded-fetch";
+
+const servers: http.Server[] = [];
+
+// Starts a stand-in server on an ephemeral loopback port
+const listen = async (handler: RequestListener) => {
+  const server = http.createServer(handler);
+  servers.push(server);
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", resolve)
+  );
+  const { port } = server.address() as AddressInfo;
+  return { port, origin: `http://127.0.0.1:${port}` };
+};
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+  await Promise.all(
+    servers.splice(0).map(
+      (server) =>
+        new Promise((resolve) => {
+          server.closeAllConnections();
+          server.close(resolve);
+        })
+    )
+  );
+});
+
+const rejectsWith = async (promise: Promise<unknown>, code: string) => {
+  const error = await promise.then(
+    () => undefined,
+    (error: unknown) => error
+  );
+  expect(error).toBeInstanceOf(GuardedFetchError);
+  expect((error as GuardedFetchError).code).toBe(code);
+};
+
+describe("isBlockedAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "not-an-ip",
+  ])("blocks %s", (address) => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(["93.184.216.34", "8.8.8.8", "::ffff:8.8.8.8", "2606:4700::1111"])(
+    "allows %s",
+    (address) => {
+      expect(isBlockedAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe("allowedPortsFromEnv", () => {
+  it("reads a comma-separated port list", () => {
+    expect(allowedPortsFromEnv("80, 443,3001")).toEqual([80, 443, 3001]);
+  });
+
+  it("falls back to the defaults when unset or invalid", () => {
+    expect(allowedPortsFromEnv(undefined)).toEqual(DEFAULT_ALLOWED_PORTS);
+    expect(allowedPortsFromEnv("none")).toEqual(DEFAULT_ALLOWED_PORTS);
+  });
+});
+
+describe("guardedFetch", () => {
+  it("fetches from a stand-in when private networks and its port are allowed", async () => {
+    const { port, origin } = await listen((_, response) =>
+      response.end("<urlset/>")
+    );
+
+    const response = await guardedFetch(`${origin}/sitemap.xml`, {
+      allowPrivateNetworks: true,
+      allowedPorts: [port],
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.toString()).toBe("<urlset/>");
+  });
+
+  it("reads the private-network flag and port list from the environment", async () => {
+    const { port, origin } = await listen((_, response) =>
+      response.end("<urlset/>")
+    );
+    vi.stubEnv("SITEMAP_FETCH_ALLOW_PRIVATE", "true");
+    vi.stubEnv("SITEMAP_FETCH_ALLOWED_PORTS", `80,443,${port}`);
+
+    const response = await guardedFetch(origin);
+
+    expect(response.body.toString()).toBe("<urlset/>");
+  });
+
+  it("rejects ports outside the allowlist", async () => {
+    const { origin } = await listen((_, response) => response.end());
+
+    await rejectsWith(
+      guardedFetch(origin, { allowPrivateNetworks: true }),
+      "BLOCKED_PORT"
+    );
+  });
+
+  it("rejects schemes other than http and https", async () => {
+    await rejectsWith(guardedFetch("file:///etc/passwd"), "BLOCKED_SCHEME");
+  });
+
+  it("rejects loopback addresses", async () => {
+    const handler = vi.fn<RequestListener>((_, response) => response.end());
+    const { port, origin } = await listen(handler);
+
+    await rejectsWith(
+      guardedFetch(origin, { allowedPorts: [port] }),
+      "BLOCKED_ADDRESS"
+    );
+    // Host names are checked on the addresses they resolve to
+    await rejectsWith(
+      guardedFetch(`http://localhost:${port}/`, { allowedPorts: [port] }),
+      "BLOCKED_ADDRESS"
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    "10.0.0.1",
+    "172.16.0.1",
+    "192.168.0.1",
+    "169.254.169.254",
+    "[fd00::1]",
+  ])(
+    "rejects the private address %s without connecting",
+    async (host) => {
+      await rejectsWith(guardedFetch(`http://${host}/`), "BLOCKED_ADDRESS");
+    }
+  );
+
+  it("rejects redirects to a private host", async () => {
+    const handler = vi.fn<RequestListener>((_, response) => {
+      response.writeHead(302, { Location: "http://192.168.0.1/sitemap.xml" });
+      response.end();
+    });
+    const { port, origin } = await listen(handler);
+
+    await rejectsWith(
+      guardedFetch(origin, {
+        allowedPorts: [port, 80],
+        allowedAddresses: ["127.0.0.1"],
+      }),
+      "BLOCKED_ADDRESS"
+    );
+    // The stand-in itself was reached; only the redirect was refused
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it("follows redirects up to the limit", async () => {
+    const { port, origin } = await listen((request, response) => {
+      const hop = Number(request.url?.slice(1) || 0);
+      response.writeHead(302, { Location: `/${hop + 1}` });
+      response.end();
+    });
+    const options = { allowPrivateNetworks: true, allowedPorts: [port] };
+
+    await rejectsWith(
+      guardedFetch(origin, { ...options, maxRedirects: 2 }),
+      "TOO_MANY_REDIRECTS"
+    );
+  });
+
+  it("rejects bodies over the size limit", async () => {
+    const { port, origin } = await listen((request, response) => {
+      // Announced by Content-Length, or only noticed while streaming
+      if (request.url === "/announced") {
+        response.end("x".repeat(2048));
+        return;
+      }
+      response.write("x".repeat(1000));
+      response.end("x".repeat(1000));
+    });
+    const options = {
+      allowPrivateNetworks: true,
+      allowedPorts: [port],
+      maxBytes: 1024,
+    };
+
+    await rejectsWith(
+      guardedFetch(`${origin}/announced`, options),
+      "RESPONSE_TOO_LARGE"
+    );
+    await rejectsWith(
+      guardedFetch(`${origin}/chunked`, options),
+      "RESPONSE_TOO_LARGE"
+    );
+  });
+
+  it("times out when the server does not answer", async () => {
+    // Never responds
+    const { port, origin } = await listen(() => {});
+
+    await rejectsWith(
+      guardedFetch(origin, {
+        allowPrivateNetworks: true,
+        allowedPorts: [port],
+        timeoutMs: 100,
+      }),
+      "TIMEOUT"
+    );
+  });
+
+  it("reports a cancelled request as aborted", async () => {
+    const { port, origin } = await listen(() => {});
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await rejectsWith(
+      guardedFetch(origin, {
+        allowPrivateNetworks: true,
+        allowedPorts: [port],
+        signal: controller.signal,
+      }),
+      "ABORTED"
+    );
+  });
+});
+
+describe("createRateLimiter", () => {
+  const consumeThrows = (consume: () => void) => {
+    try {
+      consume();
+    } catch (error) {
+      expect(error).toBeInstanceOf(GuardedFetchError);
+      expect((error as GuardedFetchError).code).toBe("RATE_LIMITED");
+      return true;
+    }
+    return false;
+  };
+
+  it("allows up to the limit per key within a window", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect(consumeThrows(() => limiter.consume("203.0.113.1"))).toBe(false);
+    expect(consumeThrows(() => limiter.consume("203.0.113.1"))).toBe(false);
+    expect(consumeThrows(() => limiter.consume("203.0.113.1"))).toBe(true);
+    // Other clients have their own count
+    expect(consumeThrows(() => limiter.consume("203.0.113.2"))).toBe(false);
+  });
+
+  it("starts a new count once the window has passed", () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+    limiter.consume("203.0.113.1");
+    expect(consumeThrows(() => limiter.consume("203.0.113.1"))).toBe(true);
+    vi.advanceTimersByTime(59_999);
+    expect(consumeThrows(() => limiter.consume("203.0.113.1"))).toBe(true);
+    vi.advanceTimersByTime(1);
+    expect(consumeThrows(() => limiter.consume("203.0.113.1"))).toBe(false);
+  });
+
+  it("says when to try again", () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+    limiter.consume("203.0.113.1");
+    vi.advanceTimersByTime(15_000);
+
+    expect(() => limiter.consume("203.0.113.1")).toThrow(
+      "Too many requests; try again in 45 seconds"
+    );
+  });
+});
+
+describe("trustedProxyHopsFromEnv", () => {
+  it("reads a positive hop count", () => {
+    expect(trustedProxyHopsFromEnv("2")).toBe(2);
+  });
+
+  it("trusts no proxy when unset or invalid", () => {
+    expect(trustedProxyHopsFromEnv(undefined)).toBe(0);
+    expect(trustedProxyHopsFromEnv("-1")).toBe(0);
+    expect(trustedProxyHopsFromEnv("yes")).toBe(0);
+  });
+});
+
+describe("getClientIp", () => {
+  const requestWith = (headers: Record<string, string>) =>
+    new Request("http://localhost/api/fetch", { headers });
+
+  it("ignores forwarded headers unless a proxy is trusted", () => {
+    const request = requestWith({
+      "x-forwarded-for": "198.51.100.7",
+      "x-real-ip": "198.51.100.7",
+    });
+
+    expect(getClientIp(request, 0)).toBe("unknown");
+  });
+
+  it("takes the address appended by the trusted proxy", () => {
+    const request = requestWith({ "x-forwarded-for": "203.0.113.9" });
+
+    expect(getClientIp(request, 1)).toBe("203.0.113.9");
+  });
+
+  it("cannot be spoofed by a client-supplied X-Forwarded-For", () => {
+    // The client sent "198.51.100.7"; the proxy appended the real address
+    const request = requestWith({
+      "x-forwarded-for": "198.51.100.7, 203.0.113.9",
+      "x-real-ip": "198.51.100.7",
+    });
+
+    expect(getClientIp(request, 1)).toBe("203.0.113.9");
+  });
+
+  it("counts trusted hops from the right", () => {
+    // Spoofed entry, the client as seen by the edge proxy, and the edge proxy
+    // as seen by the proxy next to the app
+    const request = requestWith({
+      "x-forwarded-for": "198.51.100.7, 203.0.113.9, 192.0.2.10",
+    });
+
+    expect(getClientIp(request, 2)).toBe("203.0.113.9");
+  });
+
+  it("reads the hop count from the environment", () => {
+    vi.stubEnv("SITEMAP_TRUSTED_PROXY_HOPS", "1");
+    const request = requestWith({
+      "x-forwarded-for": "198.51.100.7, 203.0.113.9",
+    });
+
+    expect(getClientIp(request)).toBe("203.0.113.9");
+  });
+});
@@ -0,0 +1,448 @@
+import { lookup as dnsLookup, type LookupAddress } from "node:dns";
+import http, {
+  type IncomingHttpHeaders,
+  type IncomingMessage,
+} from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+export type GuardedFetchErrorCode =
+  | "INVALID_URL"
+  | "BLOCKED_SCHEME"
+  | "BLOCKED_PORT"
+  | "BLOCKED_ADDRESS"
+  | "DNS_FAILURE"
+  | "CONNECTION_FAILED"
+  | "TOO_MANY_REDIRECTS"
+  | "RESPONSE_TOO_LARGE"
+  | "DECOMPRESSION_FAILED"
+  | "TIMEOUT"
+  | "ABORTED"
+  | "HTTP_ERROR"
+  | "RATE_LIMITED";
+
+// HTTP status a route should answer with for each error code
+const ERROR_STATUS: Record<GuardedFetchErrorCode, number> = {
+  INVALID_URL: 400,
+  BLOCKED_SCHEME: 400,
+  BLOCKED_PORT: 400,
+  BLOCKED_ADDRESS: 403,
+  DNS_FAILURE: 502,
+  CONNECTION_FAILED: 502,
+  TOO_MANY_REDIRECTS: 502,
+  RESPONSE_TOO_LARGE: 413,
+  DECOMPRESSION_FAILED: 502,
+  TIMEOUT: 504,
+  // Client closed the request; nobody reads this response
+  ABORTED: 499,
+  HTTP_ERROR: 502,
+  RATE_LIMITED: 429,
+};
+
+export class GuardedFetchError extends Error {
+  readonly code: GuardedFetchErrorCode;
+  readonly status: number;
+
+  constructor(code: GuardedFetchErrorCode, message: string) {
+    super(message);
+    this.name = "GuardedFetchError";
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+export interface GuardedFetchOptions {
+  maxBytes?: number;
+  // Budget for the whole request, redirects and body included
+  timeoutMs?: number;
+  maxRedirects?: number;
+  // Defaults to SITEMAP_FETCH_ALLOWED_PORTS (comma-separated) when set, so a
+  // local stand-in on another port can be reached in development
+  allowedPorts?: number[];
+  // Lets local stand-in servers be reached in development; turned on by
+  // SITEMAP_FETCH_ALLOW_PRIVATE=true
+  allowPrivateNetworks?: boolean;
+  // Private addresses that may be reached even without
+  // `allowPrivateNetworks`, such as a single known stand-in server
+  allowedAddresses?: string[];
+  headers?: Record<string, string>;
+  // Cancels the request, e.g. when the route's client disconnects
+  signal?: AbortSignal;
+}
+
+export interface GuardedResponse {
+  // Final URL after redirects
+  url: string;
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export const DEFAULT_ALLOWED_PORTS = [80, 443, 8080, 8443];
+
+// Ports listed in SITEMAP_FETCH_ALLOWED_PORTS, or the defaults without it
+export const allowedPortsFromEnv = (
+  value = process.env.SITEMAP_FETCH_ALLOWED_PORTS
+) => {
+  const ports = (value ?? "")
+    .split(",")
+    .map((port) => Number(port.trim()))
+    .filter((port) => Number.isInteger(port) && port > 0 && port < 65536);
+  return ports.length > 0 ? ports : DEFAULT_ALLOWED_PORTS;
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${Math.round(bytes / 1024 / 1024)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Loopback, private, link-local, CGNAT, documentation, multicast and other
+// reserved ranges that a user-supplied URL must never reach. IPv4-mapped IPv6
+// addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges by BlockList
+// itself; listing ::ffff:0:0/96 would block every IPv4 address.
+const blockedAddresses = new BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([network, prefix]) =>
+  blockedAddresses.addSubnet(network as string, prefix as number, "ipv4")
+);
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]) =>
+  blockedAddresses.addSubnet(network as string, prefix as number, "ipv6")
+);
+
+export const isBlockedAddress = (address: string) => {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+// Whether a resolved or literal address may be connected to
+const isAllowedAddress = (
+  address: string,
+  allowPrivateNetworks: boolean,
+  allowedAddresses: string[]
+) =>
+  allowPrivateNetworks ||
+  allowedAddresses.includes(address) ||
+  !isBlockedAddress(address);
+
+const blockedAddressError = (hostname: string, address: string) =>
+  new GuardedFetchError(
+    "BLOCKED_ADDRESS",
+    `${hostname} resolves to a private or reserved address (${address})`
+  );
+
+// Validates every address a hostname resolves to, right before the socket
+// connects to it, so a second DNS answer cannot swap in a private address
+const guardedLookup =
+  (
+    allowPrivateNetworks: boolean,
+    allowedAddresses: string[]
+  ): LookupFunction =>
+  (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, "", 0);
+        return;
+      }
+
+      const list = addresses as LookupAddress[];
+      const blocked = list.find(
+        ({ address }) =>
+          !isAllowedAddress(address, allowPrivateNetworks, allowedAddresses)
+      );
+      if (blocked) {
+        callback(blockedAddressError(hostname, blocked.address), "", 0);
+        return;
+      }
+
+      if (options.all) {
+        (callback as (error: null, addresses: LookupAddress[]) => void)(
+          null,
+          list
+        );
+      } else {
+        callback(null, list[0].address, list[0].family);
+      }
+    });
+  };
+
+const parseUrl = (input: string) => {
+  try {
+    return new URL(input);
+  } catch {
+    throw new GuardedFetchError("INVALID_URL", `"${input}" is not a valid URL`);
+  }
+};
+
+const assertAllowedUrl = (
+  url: URL,
+  allowedPorts: number[],
+  allowPrivateNetworks: boolean,
+  allowedAddresses: string[]
+) => {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new GuardedFetchError(
+      "BLOCKED_SCHEME",
+      `Only http and https URLs can be fetched, not ${url.protocol}`
+    );
+  }
+
+  const port = Number(url.port || (url.protocol === "https:" ? 443 : 80));
+  if (!allowedPorts.includes(port)) {
+    throw new GuardedFetchError(
+      "BLOCKED_PORT",
+      `Port ${port} is not allowed; use one of ${allowedPorts.join(", ")}`
+    );
+  }
+
+  // Literal IPs never go through the lookup hook
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (
+    isIP(hostname) &&
+    !isAllowedAddress(hostname, allowPrivateNetworks, allowedAddresses)
+  ) {
+    throw new GuardedFetchError(
+      "BLOCKED_ADDRESS",
+      `${hostname} is a private or reserved address`
+    );
+  }
+};
+
+const toGuardedError = (error: unknown): GuardedFetchError => {
+  if (error instanceof GuardedFetchError) return error;
+
+  const { name, code, message } = error as NodeJS.ErrnoException;
+  if (name === "AbortError") {
+    return new GuardedFetchError("TIMEOUT", "The request timed out");
+  }
+  if (code === "ENOTFOUND" || code === "EAI_AGAIN") {
+    return new GuardedFetchError(
+      "DNS_FAILURE",
+      "The host name did not resolve"
+    );
+  }
+  return new GuardedFetchError(
+    "CONNECTION_FAILED",
+    `Could not connect: ${message || "unknown error"}`
+  );
+};
+
+const requestOnce = (
+  url: URL,
+  headers: Record<string, string>,
+  lookup: LookupFunction,
+  signal: AbortSignal
+) =>
+  new Promise<IncomingMessage>((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.request(
+      url,
+      { method: "GET", headers, lookup, signal },
+      resolve
+    );
+    request.on("error", reject);
+    request.end();
+  });
+
+// Buffers a response body, giving up as soon as it grows past `maxBytes`
+const readBody = async (response: IncomingMessage, maxBytes: number) => {
+  const tooLarge = () =>
+    new GuardedFetchError(
+      "RESPONSE_TOO_LARGE",
+      `The response is larger than ${formatBytes(maxBytes)}`
+    );
+
+  if (Number(response.headers["content-length"]) > maxBytes) {
+    response.destroy();
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      response.destroy();
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * GETs a user-supplied URL with SSRF safeguards: only http(s) on allowed
+ * ports, no private or reserved addresses (checked on every DNS answer the
+ * connection uses, and again after each redirect), and hard caps on
+ * redirects, response size and total duration. Failures are thrown as a
+ * `GuardedFetchError` with a stable `code`.
+ */
+export const guardedFetch = async (
+  input: string,
+  {
+    maxBytes = 50 * 1024 * 1024,
+    timeoutMs = 20_000,
+    maxRedirects = 5,
+    allowedPorts = allowedPortsFromEnv(),
+    allowPrivateNetworks = process.env.SITEMAP_FETCH_ALLOW_PRIVATE === "true",
+    allowedAddresses = [],
+    headers = {},
+    signal,
+  }: GuardedFetchOptions = {}
+): Promise<GuardedResponse> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const abort = () => controller.abort();
+  if (signal?.aborted) abort();
+  signal?.addEventListener("abort", abort, { once: true });
+  const lookup = guardedLookup(allowPrivateNetworks, allowedAddresses);
+
+  try {
+    let url = parseUrl(input);
+    for (let redirects = 0; ; redirects++) {
+      assertAllowedUrl(
+        url,
+        allowedPorts,
+        allowPrivateNetworks,
+        allowedAddresses
+      );
+      const response = await requestOnce(
+        url,
+        headers,
+        lookup,
+        controller.signal
+      );
+
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      if (REDIRECT_STATUSES.has(status) && location) {
+        response.resume();
+        if (redirects >= maxRedirects) {
+          throw new GuardedFetchError(
+            "TOO_MANY_REDIRECTS",
+            `Gave up after ${maxRedirects} redirects`
+          );
+        }
+        url = parseUrl(new URL(location, url).toString());
+        continue;
+      }
+
+      return {
+        url: url.toString(),
+        status,
+        headers: response.headers,
+        body: await readBody(response, maxBytes),
+      };
+    }
+  } catch (error) {
+    // The socket error an abort causes depends on where it struck
+    if (signal?.aborted) {
+      throw new GuardedFetchError("ABORTED", "The request was cancelled");
+    }
+    throw toGuardedError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+};
+
+export interface RateLimiter {
+  // Counts a request for `key`, throwing RATE_LIMITED once over the limit
+  consume: (key: string) => void;
+}
+
+/** Fixed-window, in-memory request limiter keyed by client IP. */
+export const createRateLimiter = ({
+  limit,
+  windowMs,
+}: {
+  limit: number;
+  windowMs: number;
+}): RateLimiter => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    consume: (key) => {
+      const now = Date.now();
+      if (windows.size > 10_000) {
+        windows.forEach((window, windowKey) => {
+          if (window.resetAt <= now) windows.delete(windowKey);
+        });
+      }
+
+      const window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return;
+      }
+
+      window.count++;
+      if (window.count > limit) {
+        throw new GuardedFetchError(
+          "RATE_LIMITED",
+          `Too many requests; try again in ${Math.ceil(
+            (window.resetAt - now) / 1000
+          )} seconds`
+        );
+      }
+    },
+  };
+};
+
+// Number of reverse proxies in front of the app, from
+// SITEMAP_TRUSTED_PROXY_HOPS; 0 (the default) trusts no forwarded headers
+export const trustedProxyHopsFromEnv = (
+  value = process.env.SITEMAP_TRUSTED_PROXY_HOPS
+) => {
+  const hops = Number(value?.trim() || 0);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+};
+
+/**
+ * The requesting client's IP, for keying rate limits. Forwarded headers are
+ * only read when `trustedProxyHops` says proxies sit in front of the app:
+ * each proxy appends the address it received the request from to
+ * X-Forwarded-For, so the client is the entry that many hops from the right
+ * and anything further left was sent by the client itself. Without a
+ * trusted proxy the route cannot see the client's address, and every request
+ * shares the "unknown" key, which turns the limit into a global one.
+ */
+export const getClientIp = (
+  request: Request,
+  trustedProxyHops = trustedProxyHopsFromEnv()
+) => {
+  if (trustedProxyHops === 0) return "unknown";
+
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwarded.length === 0) return "unknown";
+  // A shorter chain than configured was built by trusted proxies only
+  return forwarded[Math.max(0, forwarded.length - trustedProxyHops)];
+};
@@ -0,0 +1,219 @@
+// Sitemaps are often pasted from a browser rather than saved, and each
+// browser decorates the copied XML differently. Every normaliser below undoes
+// one such decoration; `cleanPastedContent` reports which ones changed the
+// content so the user can see what was altered.
+
+export interface PasteNormalizer {
+  id: string;
+  // Describes the change in the cleaning report
+  label: string;
+  // Whether the content looks like it came from this source
+  detect: (content: string) => boolean;
+  normalize: (content: string) => string;
+}
+
+export interface CleanedContent {
+  content: string;
+  // Labels of the normalisers that changed the content, in order
+  cleaned: string[];
+}
+
+// Shown above unstyled XML by Chrome, Firefox and Safari
+const BROWSER_MESSAGES = [
+  /This XML file does not appear to have any style information associated with it\./gi,
+  /The document tree is shown below\./gi,
+  /This page contains the following errors:/gi,
+  /Below is a rendering of the page up to the first error\./gi,
+];
+
+const browserMessages: PasteNormalizer = {
+  id: "browser-messages",
+  label: "Removed the browser's XML viewer messages",
+  detect: (content) =>
+    BROWSER_MESSAGES.some((message) => content.search(message) !== -1),
+  normalize: (content) =>
+    BROWSER_MESSAGES.reduce(
+      (text, message) => text.replace(message, ""),
+      content
+    ),
+};
+
+// A line number, either alone on its line or followed by a tab or space
+const LINE_NUMBER = /^\s*(\d+)(?:[\t ]|$)/;
+
+// Whether the numbered lines count up from 1 and make up most of the content
+const hasLineNumbers = (content: string) => {
+  const lines = content.split("\n").filter((line) => line.trim());
+  const numbers = lines
+    .map((line) => LINE_NUMBER.exec(line)?.[1])
+    .filter((number): number is string => number !== undefined)
+    .map(Number);
+  return (
+    numbers.length >= 3 &&
+    numbers.length >= lines.length / 2 &&
+    numbers.every((number, index) => number === index + 1)
+  );
+};
+
+// Chrome's view-source: page copies its line numbers along with the source,
+// in some versions on a line of their own
+const viewSourceLineNumbers: PasteNormalizer = {
+  id: "view-source-line-numbers",
+  label: "Removed view-source line numbers",
+  detect: hasLineNumbers,
+  normalize: (content) =>
+    content
+      .split("\n")
+      .filter((line) => !/^\s*(?:\d+|Line wrap)\s*$/.test(line))
+      .map((line) => line.replace(LINE_NUMBER, ""))
+      .join("\n"),
+};
+
+// Firefox's XML viewer prefixes expandable elements with "-" or "+"
+const COLLAPSE_MARKER = /^([ \t]*)[-+−][ \t]*(?=<)/gm;
+
+const firefoxCollapseMarkers: PasteNormalizer = {
+  id: "firefox-collapse-markers",
+  label: "Removed Firefox collapse markers",
+  detect: (content) => content.search(COLLAPSE_MARKER) !== -1,
+  normalize: (content) => content.replace(COLLAPSE_MARKER, "$1"),
+};
+
+// Chrome's and Safari's rendered XML tree shows disclosure triangles
+const DISCLOSURE_TRIANGLE = /[▶▸►▼▾][ \t]*(?=<)/g;
+
+const disclosureTriangles: PasteNormalizer = {
+  id: "disclosure-triangles",
+  label: "Removed the rendered XML tree's expand/collapse triangles",
+  detect: (content) => content.search(DISCLOSURE_TRIANGLE) !== -1,
+  normalize: (content) => content.replace(DISCLOSURE_TRIANGLE, ""),
+};
+
+// Attribute values delimited by curly double or single quotes
+const SMART_DOUBLE_QUOTED = /=(\s*)[“”„‟″]([^“”„‟″"<>]*)[“”„‟″]/g;
+const SMART_SINGLE_QUOTED = /=(\s*)[‘’‚‛′]([^‘’‚‛′'<>]*)[‘’‚‛′]/g;
+
+// Word processors and chat apps "smarten" the quotes around attribute values;
+// quotes inside values and text content are left alone as they may be meant
+const smartQuotes: PasteNormalizer = {
+  id: "smart-quotes",
+  label: "Replaced smart quotes around attribute values",
+  detect: (content) =>
+    content.search(SMART_DOUBLE_QUOTED) !== -1 ||
+    content.search(SMART_SINGLE_QUOTED) !== -1,
+  normalize: (content) =>
+    content.replace(/<[^>]*>/g, (tag) =>
+      tag
+        .replace(SMART_DOUBLE_QUOTED, '=$1"$2"')
+        .replace(SMART_SINGLE_QUOTED, "=$1'$2'")
+    ),
+};
+
+// Non-breaking and zero-width spaces that rendered pages and rich text
+// editors put in place of, or between, ordinary whitespace
+const UNUSUAL_SPACES = /[\u00A0\u2007\u202F]/g;
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF]/g;
+
+// A whitespace-only run before the first tag or between two tags; text
+// nodes are left alone, as a non-breaking space there is usually meant
+const INTER_TAG_WHITESPACE = /(^|>)([\s\u200B-\u200D\u2060]+)(?=<|$)/g;
+
+const hasUnusualSpaces = (whitespace: string) =>
+  whitespace.search(UNUSUAL_SPACES) !== -1 ||
+  whitespace.search(ZERO_WIDTH) !== -1;
+
+const unusualSpaces: PasteNormalizer = {
+  id: "unusual-spaces",
+  label: "Replaced non-breaking and zero-width spaces between tags",
+  detect: (content) =>
+    Array.from(content.matchAll(INTER_TAG_WHITESPACE)).some((match) =>
+      hasUnusualSpaces(match[2])
+    ),
+  normalize: (content) =>
+    content.replace(
+      INTER_TAG_WHITESPACE,
+      (_, before: string, whitespace: string) =>
+        before +
+        whitespace.replace(UNUSUAL_SPACES, " ").replace(ZERO_WIDTH, "")
+    ),
+};
+
+// Where the XML starts: a declaration or one of the accepted root elements
+const XML_START_PATTERNS = [
+  /<\?xml/i,
+  /<urlset/i,
+  /<sitemapindex/i,
+  /<rss/i,
+  /<feed/i,
+];
+
+const findXmlStart = (content: string) => {
+  for (const pattern of XML_START_PATTERNS) {
+    const match = content.search(pattern);
+    if (match !== -1) return match;
+  }
+  return -1;
+};
+
+// Page titles, URLs and other text copied along with the XML
+const leadingText: PasteNormalizer = {
+  id: "leading-text",
+  label: "Removed text before the XML",
+  detect: (content) => findXmlStart(content.trim()) !== 0,
+  normalize: (content) => {
+    let cleaned = content.trim();
+    const xmlStart = findXmlStart(cleaned);
+    if (xmlStart !== -1) {
+      cleaned = cleaned.substring(xmlStart);
+    }
+
+    // Remove any remaining lines that don't start with <
+    const lines = cleaned.split("\n");
+    const firstXmlLine = lines.findIndex(
+      (line) => line.trim().startsWith("<") || line.trim() === ""
+    );
+    return firstXmlLine > 0 ? lines.slice(firstXmlLine).join("\n") : cleaned;
+  },
+};
+
+// Applied in this order: the decorations around and inside lines go first so
+// the XML can be found, and the leading text is cut last
+export const PASTE_NORMALIZERS: PasteNormalizer[] = [
+  browserMessages,
+  viewSourceLineNumbers,
+  firefoxCollapseMarkers,
+  disclosureTriangles,
+  smartQuotes,
+  unusualSpaces,
+  leadingText,
+];
+
+// Uploaded and fetched files get only the cleanup that cannot change their
+// XML: a page saved from a browser's XML viewer keeps the viewer's messages,
+// and anything before the XML declaration or root element is not XML
+export const FILE_NORMALIZERS: PasteNormalizer[] = [
+  browserMessages,
+  leadingText,
+];
+
+/**
+ * Strips what browsers add when XML is copied from their viewers, returning
+ * the cleaned XML with a report of what was removed or replaced. Surrounding
+ * whitespace is trimmed without being reported.
+ */
+export const cleanPastedContent = (
+  content: string,
+  normalizers: PasteNormalizer[] = PASTE_NORMALIZERS
+): CleanedContent => {
+  const cleaned: string[] = [];
+  const result = normalizers.reduce((text, normalizer) => {
+    if (!normalizer.detect(text)) return text;
+    const normalized = normalizer.normalize(text);
+    if (normalized.trim() !== text.trim()) cleaned.push(normalizer.label);
+    return normalized;
+  }, content);
+  return { content: result.trim(), cleaned };
+};
+
+export const cleanXmlContent = (content: string): string =>
+  cleanPastedContent(content).content;
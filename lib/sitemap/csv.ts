@@ -0,0 +1,324 @@
+import { formatAlternates } from "./hreflang";
+import type {
+  HreflangFinding,
+  ProtocolFinding,
+  SchemaError,
+  SitemapEntry,
+  SitemapImage,
+  SitemapVideo,
+} from "./types";
+
+// How image sitemap data is laid out in the CSV
+export type ImageExportMode = "aggregate" | "per-image";
+
+// How hreflang alternates are laid out in the CSV
+export type AlternatesExportMode = "combined" | "per-locale";
+
+export interface CsvOptions {
+  imageMode?: ImageExportMode;
+  alternatesMode?: AlternatesExportMode;
+}
+
+export interface CsvColumn<Row> {
+  header: string;
+  value: (row: Row) => string | number | undefined;
+}
+
+// Which optional data the entries of an export carry
+export interface CsvSummary {
+  sourceSitemaps: boolean;
+  alternates: boolean;
+  // Every hreflang value, in order of discovery
+  locales: Set<string>;
+  images: boolean;
+  videos: boolean;
+  news: boolean;
+  feed: boolean;
+}
+
+export interface SitemapCsvWriter {
+  header: string;
+  // The CSV lines for one entry; several in "per-image" mode
+  rows: (entry: SitemapEntry) => string[];
+}
+
+type EntryRow = { entry: SitemapEntry; image?: SitemapImage };
+
+const csvCell = (value: string | number | undefined) =>
+  `"${String(value ?? "").replace(/"/g, '""')}"`;
+
+const joinImages = (
+  entry: SitemapEntry,
+  pick: (image: SitemapImage) => string | undefined
+) => (entry.images ?? []).map((image) => pick(image) || "").join("; ");
+
+const csvHeader = <Row>(columns: CsvColumn<Row>[]) =>
+  columns.map((column) => csvCell(column.header)).join(",");
+
+const csvLine = <Row>(row: Row, columns: CsvColumn<Row>[]) =>
+  columns.map((column) => csvCell(column.value(row))).join(",");
+
+export const buildCsv = <Row>(rows: Row[], columns: CsvColumn<Row>[]) =>
+  [csvHeader(columns), ...rows.map((row) => csvLine(row, columns))].join("\n");
+
+const baseColumns: CsvColumn<EntryRow>[] = [
+  { header: "URL", value: ({ entry }) => entry.url },
+  { header: "Last Modified", value: ({ entry }) => entry.lastModified },
+  { header: "Change Frequency", value: ({ entry }) => entry.changeFrequency },
+  { header: "Priority", value: ({ entry }) => entry.priority },
+];
+
+const sourceSitemapColumns: CsvColumn<EntryRow>[] = [
+  { header: "Source Sitemap", value: ({ entry }) => entry.sourceSitemap },
+];
+
+const combinedAlternatesColumns: CsvColumn<EntryRow>[] = [
+  {
+    header: "Alternates",
+    value: ({ entry }) => formatAlternates(entry.alternates),
+  },
+];
+
+// Header for an alternate whose hreflang attribute is empty or missing
+const EMPTY_HREFLANG_HEADER = "(empty hreflang)";
+
+// One column per hreflang value, holding that locale's alternate URL
+const localeColumns = (locales: string[]): CsvColumn<EntryRow>[] =>
+  locales.map((locale) => ({
+    header: locale || EMPTY_HREFLANG_HEADER,
+    value: ({ entry }) =>
+      (entry.alternates ?? [])
+        .filter((alternate) => alternate.hreflang === locale)
+        .map((alternate) => alternate.href)
+        .join("; "),
+  }));
+
+const aggregatedImageColumns: CsvColumn<EntryRow>[] = [
+  { header: "Image Count", value: ({ entry }) => entry.images?.length ?? 0 },
+  {
+    header: "Image URLs",
+    value: ({ entry }) => joinImages(entry, (image) => image.loc),
+  },
+  {
+    header: "Image Titles",
+    value: ({ entry }) => joinImages(entry, (image) => image.title),
+  },
+  {
+    header: "Image Captions",
+    value: ({ entry }) => joinImages(entry, (image) => image.caption),
+  },
+];
+
+const perImageColumns: CsvColumn<EntryRow>[] = [
+  { header: "Image URL", value: ({ image }) => image?.loc },
+  { header: "Image Title", value: ({ image }) => image?.title },
+  { header: "Image Caption", value: ({ image }) => image?.caption },
+  { header: "Image Geo Location", value: ({ image }) => image?.geoLocation },
+  { header: "Image License", value: ({ image }) => image?.license },
+];
+
+const videoCountColumns: CsvColumn<EntryRow>[] = [
+  { header: "Video Count", value: ({ entry }) => entry.videos?.length ?? 0 },
+];
+
+const newsColumns: CsvColumn<EntryRow>[] = [
+  {
+    header: "News Publication",
+    value: ({ entry }) => entry.news?.publicationName,
+  },
+  {
+    header: "News Language",
+    value: ({ entry }) => entry.news?.publicationLanguage,
+  },
+  {
+    header: "News Publication Date",
+    value: ({ entry }) => entry.news?.publicationDate,
+  },
+  { header: "News Title", value: ({ entry }) => entry.news?.title },
+  {
+    header: "News Keywords",
+    value: ({ entry }) => entry.news?.keywords?.join("; "),
+  },
+  { header: "News Genres", value: ({ entry }) => entry.news?.genres },
+  {
+    header: "News Stock Tickers",
+    value: ({ entry }) => entry.news?.stockTickers,
+  },
+];
+
+type VideoRow = { entry: SitemapEntry; video: SitemapVideo };
+
+const videoColumns: CsvColumn<VideoRow>[] = [
+  { header: "Page URL", value: ({ entry }) => entry.url },
+  { header: "Title", value: ({ video }) => video.title },
+  { header: "Description", value: ({ video }) => video.description },
+  { header: "Thumbnail URL", value: ({ video }) => video.thumbnailLoc },
+  { header: "Content URL", value: ({ video }) => video.contentLoc },
+  { header: "Player URL", value: ({ video }) => video.playerLoc },
+  { header: "Duration (s)", value: ({ video }) => video.duration },
+  { header: "Publication Date", value: ({ video }) => video.publicationDate },
+  { header: "Expiration Date", value: ({ video }) => video.expirationDate },
+  { header: "Rating", value: ({ video }) => video.rating },
+  { header: "View Count", value: ({ video }) => video.viewCount },
+  { header: "Family Friendly", value: ({ video }) => video.familyFriendly },
+  { header: "Restriction", value: ({ video }) => video.restriction },
+  {
+    header: "Restriction Relationship",
+    value: ({ video }) => video.restrictionRelationship,
+  },
+  { header: "Platform", value: ({ video }) => video.platform },
+  {
+    header: "Platform Relationship",
+    value: ({ video }) => video.platformRelationship,
+  },
+  {
+    header: "Requires Subscription",
+    value: ({ video }) => video.requiresSubscription,
+  },
+  { header: "Uploader", value: ({ video }) => video.uploader },
+  { header: "Uploader Info", value: ({ video }) => video.uploaderInfo },
+  { header: "Live", value: ({ video }) => video.live },
+  { header: "Tags", value: ({ video }) => video.tags?.join("; ") },
+];
+
+const hreflangFindingColumns: CsvColumn<HreflangFinding>[] = [
+  { header: "Severity", value: (finding) => finding.severity },
+  { header: "Check", value: (finding) => finding.check },
+  { header: "URL", value: (finding) => finding.url },
+  { header: "Hreflang", value: (finding) => finding.hreflang },
+  { header: "Alternate URL", value: (finding) => finding.href },
+  { header: "Message", value: (finding) => finding.message },
+];
+
+const protocolFindingColumns: CsvColumn<ProtocolFinding>[] = [
+  { header: "Severity", value: (finding) => finding.severity },
+  { header: "Check", value: (finding) => finding.check },
+  { header: "Row", value: (finding) => finding.row },
+  { header: "URL", value: (finding) => finding.url },
+  { header: "Message", value: (finding) => finding.message },
+];
+
+const schemaErrorColumns: CsvColumn<SchemaError>[] = [
+  { header: "Line", value: (error) => error.line },
+  { header: "Column", value: (error) => error.column },
+  { header: "Message", value: (error) => error.message },
+];
+
+const feedColumns: CsvColumn<EntryRow>[] = [
+  { header: "Feed Title", value: ({ entry }) => entry.feed?.title },
+  { header: "Feed Author", value: ({ entry }) => entry.feed?.author },
+  {
+    header: "Feed Categories",
+    value: ({ entry }) => entry.feed?.categories?.join("; "),
+  },
+];
+
+export const hasFeedItems = (entries: SitemapEntry[]) =>
+  entries.some((entry) => entry.feed !== undefined);
+
+export const hasImages = (entries: SitemapEntry[]) =>
+  entries.some((entry) => (entry.images?.length ?? 0) > 0);
+
+export const hasNews = (entries: SitemapEntry[]) =>
+  entries.some((entry) => entry.news !== undefined);
+
+export const hasVideos = (entries: SitemapEntry[]) =>
+  entries.some((entry) => (entry.videos?.length ?? 0) > 0);
+
+export const hasSourceSitemaps = (entries: SitemapEntry[]) =>
+  entries.some((entry) => entry.sourceSitemap !== undefined);
+
+export const createCsvSummary = (): CsvSummary => ({
+  sourceSitemaps: false,
+  alternates: false,
+  locales: new Set(),
+  images: false,
+  videos: false,
+  news: false,
+  feed: false,
+});
+
+// Records the optional data carried by one entry
+export const addToCsvSummary = (summary: CsvSummary, entry: SitemapEntry) => {
+  if (entry.sourceSitemap !== undefined) summary.sourceSitemaps = true;
+  if (entry.alternates?.length) {
+    summary.alternates = true;
+    entry.alternates.forEach((alternate) =>
+      summary.locales.add(alternate.hreflang)
+    );
+  }
+  if (entry.images?.length) summary.images = true;
+  if (entry.videos?.length) summary.videos = true;
+  if (entry.news) summary.news = true;
+  if (entry.feed) summary.feed = true;
+};
+
+export const summarizeEntries = (entries: SitemapEntry[]) => {
+  const summary = createCsvSummary();
+  entries.forEach((entry) => addToCsvSummary(summary, entry));
+  return summary;
+};
+
+/**
+ * Picks the CSV columns for entries described by `summary` and serialises
+ * them one entry at a time. Source sitemap, image, video, news and feed
+ * columns are only added when the summary has them; in "per-image" mode
+ * every image gets its own row, and in "per-locale" mode every hreflang value
+ * its own column.
+ */
+export const createSitemapCsvWriter = (
+  summary: CsvSummary,
+  { imageMode = "aggregate", alternatesMode = "combined" }: CsvOptions = {}
+): SitemapCsvWriter => {
+  const perImage = summary.images && imageMode === "per-image";
+  const perLocale = summary.alternates && alternatesMode === "per-locale";
+
+  const columns = [
+    ...baseColumns,
+    ...(summary.sourceSitemaps ? sourceSitemapColumns : []),
+    ...(perLocale
+      ? localeColumns(Array.from(summary.locales))
+      : combinedAlternatesColumns),
+    ...(summary.images && !perImage ? aggregatedImageColumns : []),
+    ...(perImage ? perImageColumns : []),
+    ...(summary.videos ? videoCountColumns : []),
+    ...(summary.news ? newsColumns : []),
+    ...(summary.feed ? feedColumns : []),
+  ];
+
+  return {
+    header: csvHeader(columns),
+    rows: (entry) =>
+      (perImage && entry.images?.length
+        ? entry.images.map((image): EntryRow => ({ entry, image }))
+        : [{ entry }]
+      ).map((row) => csvLine(row, columns)),
+  };
+};
+
+/** Serialises entries to CSV; see `createSitemapCsvWriter` for the layout. */
+export const sitemapToCsv = (
+  entries: SitemapEntry[],
+  options: CsvOptions = {}
+): string => {
+  const writer = createSitemapCsvWriter(summarizeEntries(entries), options);
+  return [writer.header, ...entries.flatMap(writer.rows)].join("\n");
+};
+
+// One row per <video:video>, with the page it was listed under
+export const videosToCsv = (entries: SitemapEntry[]): string =>
+  buildCsv(
+    entries.flatMap((entry) =>
+      (entry.videos ?? []).map((video) => ({ entry, video }))
+    ),
+    videoColumns
+  );
+
+export const hreflangFindingsToCsv = (findings: HreflangFinding[]): string =>
+  buildCsv(findings, hreflangFindingColumns);
+
+export const protocolFindingsToCsv = (findings: ProtocolFinding[]): string =>
+  buildCsv(findings, protocolFindingColumns);
+
+export const schemaErrorsToCsv = (errors: SchemaError[]): string =>
+  buildCsv(errors, schemaErrorColumns);
@@ -0,0 +1,86 @@
+import { DOMParser as XmlDomParser } from "@xmldom/xmldom";
+import {
+  createParseError,
+  parseErrorFromDocument,
+  type SitemapParseError,
+} from "./errors";
+import { matchesNamespace } from "./namespaces";
+
+/**
+ * Parses an XML string into a Document. Uses the browser's DOMParser when it
+ * exists and falls back to xmldom on the server, in workers and in Node
+ * scripts. With `locate` set xmldom is always used, as only its nodes record
+ * their line and column. Throws a SitemapParseError locating the first
+ * well-formedness error.
+ */
+export const parseXmlDocument = (
+  text: string,
+  { locate = false }: { locate?: boolean } = {}
+): Document => {
+  if (!locate && typeof DOMParser !== "undefined") {
+    const xmlDoc = new DOMParser().parseFromString(text, "text/xml");
+
+    // Check for parsing errors
+    const parserError = xmlDoc.getElementsByTagName("parsererror")[0];
+    if (parserError) {
+      throw parseErrorFromDocument(parserError, text);
+    }
+
+    return xmlDoc;
+  }
+
+  let failure: SitemapParseError | undefined;
+  const parser = new XmlDomParser({
+    onError: (level, message, context) => {
+      // Browsers stop at the first well-formedness error, so treat xmldom's
+      // recoverable errors as fatal too to keep both environments in step.
+      if (level !== "warning" && !failure) {
+        failure = createParseError(
+          text,
+          message,
+          context?.locator?.lineNumber,
+          context?.locator?.columnNumber
+        );
+      }
+    },
+  });
+
+  try {
+    const xmlDoc = parser.parseFromString(text, "text/xml");
+    if (!failure && xmlDoc.documentElement) {
+      return xmlDoc as unknown as Document;
+    }
+  } catch {
+    // Fall through to the shared error below
+  }
+
+  throw failure ?? createParseError(text, "missing root element");
+};
+
+// Every descendant of `root` with the given namespace and local name, in
+// document order (see `matchesNamespace` for how namespaces are compared)
+export const findAll = (
+  root: Document | Element,
+  namespace: string | null,
+  localName: string
+) =>
+  Array.from(root.getElementsByTagName("*")).filter(
+    (element) =>
+      element.localName === localName &&
+      matchesNamespace(element.namespaceURI, namespace)
+  );
+
+// The first descendant of `root` with the given namespace and local name
+export const findFirst = (
+  root: Document | Element,
+  namespace: string | null,
+  localName: string
+): Element | undefined => findAll(root, namespace, localName)[0];
+
+// Text content of the first descendant with the given namespace and local
+// name
+export const textOf = (
+  root: Document | Element,
+  namespace: string | null,
+  localName: string
+) => findFirst(root, namespace, localName)?.textContent ?? undefined;
@@ -0,0 +1,162 @@
+// XML names its character encoding in the byte order mark or the XML
+// declaration and defaults to UTF-8 without either (XML 1.0, appendix F).
+// Sitemaps get this wrong in both directions, so the declared encoding is
+// checked against the bytes before it is trusted.
+
+export interface SniffedEncoding {
+  // Canonical TextDecoder name, e.g. "utf-8" or "windows-1252"
+  encoding: string;
+  source: "bom" | "declaration" | "default";
+  // The encoding named by the XML declaration, as written
+  declared?: string;
+  warning?: string;
+}
+
+export interface DecodedSitemap {
+  text: string;
+  // The encoding the text was decoded with
+  encoding: string;
+  warnings: string[];
+}
+
+// Enough bytes to hold the XML declaration, which must come first
+export const SNIFF_BYTES = 1024;
+
+const BYTE_ORDER_MARKS: [bytes: number[], encoding: string][] = [
+  [[0xef, 0xbb, 0xbf], "utf-8"],
+  [[0xfe, 0xff], "utf-16be"],
+  [[0xff, 0xfe], "utf-16le"],
+];
+
+// "<?" in UTF-16 without a byte order mark
+const UTF16_SIGNATURES: [bytes: number[], encoding: string][] = [
+  [[0x00, 0x3c, 0x00, 0x3f], "utf-16be"],
+  [[0x3c, 0x00, 0x3f, 0x00], "utf-16le"],
+];
+
+const DECLARATION =
+  /^\s*<\?xml\s[^>]*?encoding\s*=\s*["']([A-Za-z][\w.:-]*)["']/;
+
+const startsWith = (bytes: Uint8Array, prefix: number[]) =>
+  prefix.every((byte, index) => bytes[index] === byte);
+
+// The canonical name for an encoding label, or undefined when unsupported
+const canonicalEncoding = (label: string) => {
+  try {
+    return new TextDecoder(label).encoding;
+  } catch {
+    return undefined;
+  }
+};
+
+// "UTF-16" in a declaration holds for either byte order
+const sameEncoding = (declared: string, actual: string) =>
+  declared === actual ||
+  (declared.startsWith("utf-16") && actual.startsWith("utf-16"));
+
+/**
+ * Works out the encoding of an XML document from its first bytes: a byte
+ * order mark wins, then the encoding named in the XML declaration, then
+ * UTF-8. `warning` is set when the two disagree or the declared encoding is
+ * not supported.
+ */
+export const sniffEncoding = (head: Uint8Array): SniffedEncoding => {
+  const bom = BYTE_ORDER_MARKS.find(([bytes]) => startsWith(head, bytes));
+  const signature =
+    bom ?? UTF16_SIGNATURES.find(([bytes]) => startsWith(head, bytes));
+
+  // Declarations are ASCII, so any ASCII-compatible decoder can read them
+  const prologue = new TextDecoder(signature?.[1] ?? "windows-1252").decode(
+    head.subarray(0, SNIFF_BYTES)
+  );
+  const declared = DECLARATION.exec(prologue)?.[1];
+  const declaredEncoding = declared && canonicalEncoding(declared);
+
+  if (bom) {
+    const encoding = bom[1];
+    return {
+      encoding,
+      source: "bom",
+      declared,
+      warning:
+        declared && !sameEncoding(declaredEncoding ?? declared, encoding)
+          ? `The file declares encoding "${declared}" but starts with a ${encoding} byte order mark; decoded as ${encoding}`
+          : undefined,
+    };
+  }
+
+  if (declared && !declaredEncoding) {
+    return {
+      encoding: signature?.[1] ?? "utf-8",
+      source: "default",
+      declared,
+      warning: `The file declares encoding "${declared}", which is not supported; decoded as ${
+        signature?.[1] ?? "utf-8"
+      }`,
+    };
+  }
+
+  if (declaredEncoding) {
+    return { encoding: declaredEncoding, source: "declaration", declared };
+  }
+  return { encoding: signature?.[1] ?? "utf-8", source: "default" };
+};
+
+const isAscii = (bytes: Uint8Array) => bytes.every((byte) => byte < 0x80);
+
+// The bytes as UTF-8, or undefined when they are not valid UTF-8
+const decodeUtf8 = (bytes: Uint8Array) => {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Decodes a whole sitemap file with the encoding sniffed from its first bytes.
+ * Bytes that are not valid UTF-8 where UTF-8 was declared or assumed are
+ * decoded as windows-1252, and content declared in a legacy encoding that is
+ * in fact UTF-8 is decoded as UTF-8; both are reported in `warnings`.
+ */
+export const decodeSitemapBytes = (bytes: Uint8Array): DecodedSitemap => {
+  const sniffed = sniffEncoding(bytes.subarray(0, SNIFF_BYTES));
+  const warnings = sniffed.warning ? [sniffed.warning] : [];
+  const { encoding, source, declared } = sniffed;
+
+  if (source === "bom" || encoding.startsWith("utf-16")) {
+    return {
+      text: new TextDecoder(encoding).decode(bytes),
+      encoding,
+      warnings,
+    };
+  }
+
+  if (encoding === "utf-8") {
+    const text = decodeUtf8(bytes);
+    if (text !== undefined) return { text, encoding, warnings };
+
+    warnings.push(
+      declared
+        ? `The file declares encoding "${declared}" but is not valid UTF-8; decoded as windows-1252`
+        : "The file has no encoding declaration and is not valid UTF-8; decoded as windows-1252"
+    );
+    return {
+      text: new TextDecoder("windows-1252").decode(bytes),
+      encoding: "windows-1252",
+      warnings,
+    };
+  }
+
+  // Multi-byte UTF-8 sequences almost never occur by chance in text in other
+  // encodings, so valid UTF-8 beyond ASCII means the declaration is wrong
+  const utf8 = isAscii(bytes) ? undefined : decodeUtf8(bytes);
+  if (utf8 !== undefined) {
+    warnings.push(
+      `The file declares encoding "${declared}" but its content is UTF-8; decoded as utf-8`
+    );
+    return { text: utf8, encoding: "utf-8", warnings };
+  }
+
+  return { text: new TextDecoder(encoding).decode(bytes), encoding, warnings };
+};
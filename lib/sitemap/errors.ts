@@ -0,0 +1,129 @@
+import { createExcerpt } from "./excerpt";
+import type { SourceExcerpt } from "./types";
+
+export type SitemapParseErrorCode =
+  | "MISMATCHED_TAG"
+  | "UNCLOSED_TAG"
+  | "UNDEFINED_ENTITY"
+  | "INVALID_CHARACTER"
+  | "MISSING_ROOT"
+  | "MALFORMED_XML";
+
+// Where in the parsed document the parser gave up, when it said so
+export interface ParseErrorLocation {
+  line?: number;
+  column?: number;
+  snippet?: SourceExcerpt;
+}
+
+export class SitemapParseError extends Error {
+  readonly code: SitemapParseErrorCode;
+  readonly line?: number;
+  readonly column?: number;
+  // The lines of the parsed document around the error
+  readonly snippet?: SourceExcerpt;
+
+  constructor(
+    code: SitemapParseErrorCode,
+    message: string,
+    { line, column, snippet }: ParseErrorLocation = {}
+  ) {
+    super(message);
+    this.name = "SitemapParseError";
+    this.code = code;
+    this.line = line;
+    this.column = column;
+    this.snippet = snippet;
+  }
+}
+
+// The fields of a SitemapParseError, for posting it out of a Web Worker
+export type SitemapParseErrorDetails = ParseErrorLocation & {
+  code: SitemapParseErrorCode;
+  message: string;
+};
+
+export const toParseErrorDetails = ({
+  code,
+  message,
+  line,
+  column,
+  snippet,
+}: SitemapParseError): SitemapParseErrorDetails => ({
+  code,
+  message,
+  line,
+  column,
+  snippet,
+});
+
+// Browsers and xmldom word the same problems differently
+const CODE_PATTERNS: [RegExp, SitemapParseErrorCode][] = [
+  [/mismatch|not match/i, "MISMATCHED_TAG"],
+  [
+    /unclosed|premature end|no element found|unexpected end|EOF/i,
+    "UNCLOSED_TAG",
+  ],
+  [/entity/i, "UNDEFINED_ENTITY"],
+  [/char|not well-formed|invalid token/i, "INVALID_CHARACTER"],
+  [/missing root|document is empty|no root|only one element/i, "MISSING_ROOT"],
+];
+
+const classify = (diagnostic: string): SitemapParseErrorCode =>
+  CODE_PATTERNS.find(([pattern]) => pattern.test(diagnostic))?.[1] ??
+  "MALFORMED_XML";
+
+/**
+ * Builds a SitemapParseError from a parser diagnostic, attaching an excerpt
+ * of `content` when the position of the error is known.
+ */
+export const createParseError = (
+  content: string,
+  diagnostic?: string,
+  line?: number,
+  column?: number
+): SitemapParseError => {
+  const message = diagnostic
+    ? `Invalid XML format: ${diagnostic}`
+    : "Invalid XML format";
+  const snippet =
+    line !== undefined
+      ? createExcerpt(content.split("\n"), line, column ?? 1)
+      : undefined;
+  return new SitemapParseError(classify(diagnostic ?? ""), message, {
+    line,
+    column,
+    snippet,
+  });
+};
+
+/**
+ * Reads the message and position out of a browser's <parsererror> element.
+ * Chromium and WebKit say "error on line 3 at column 10: ...", Firefox says
+ * "XML Parsing Error: ..." followed by "Line Number 3, Column 10".
+ */
+export const parseErrorFromDocument = (
+  parserError: Element,
+  content: string
+): SitemapParseError => {
+  const text = parserError.textContent ?? "";
+
+  const chromium = /line (\d+) at column (\d+):\s*([^\n]+)/.exec(text);
+  if (chromium) {
+    return createParseError(
+      content,
+      chromium[3].trim(),
+      Number(chromium[1]),
+      Number(chromium[2])
+    );
+  }
+
+  const firefoxMessage = /XML Parsing Error:\s*([^\n]+)/.exec(text);
+  const firefoxLocation = /Line Number (\d+), Column (\d+)/.exec(text);
+  return createParseError(
+    content,
+    firefoxMessage?.[1].trim(),
+    firefoxLocation ? Number(firefoxLocation[1]) : undefined,
+    firefoxLocation ? Number(firefoxLocation[2]) : undefined
+  );
+};
@@ -0,0 +1,30 @@
+import type { SourceExcerpt } from "./types";
+
+// Lines shown before and after the line of interest
+const CONTEXT_LINES = 2;
+// Long (e.g. minified) lines are cut to this many characters around the column
+const WINDOW_CHARS = 120;
+
+/**
+ * Cuts the lines around `line` (1-based) out of `content`, for showing where
+ * in a document a problem is. All lines are cut to the same window around
+ * `column` so the caret still lines up on minified, single-line XML.
+ */
+export const createExcerpt = (
+  lines: string[],
+  line: number,
+  column: number
+): SourceExcerpt => {
+  const first = Math.max(1, line - CONTEXT_LINES);
+  const last = Math.min(lines.length, line + CONTEXT_LINES);
+  const start = Math.max(0, column - 1 - WINDOW_CHARS / 2);
+
+  return {
+    line,
+    caret: column - 1 - start,
+    lines: lines.slice(first - 1, last).map((text, index) => ({
+      number: first + index,
+      text: text.replace(/\r$/, "").slice(start, start + WINDOW_CHARS),
+    })),
+  };
+};
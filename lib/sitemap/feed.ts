@@ -0,0 +1,105 @@
+import { findAll, textOf } from "./dom";
+import { ATOM_NAMESPACE, DUBLIN_CORE_NAMESPACE } from "./namespaces";
+import { createProgressReporter, type ProgressCallback } from "./progress";
+import type { SitemapEntry, SitemapFeedItem } from "./types";
+
+// RSS dates are RFC 822; store them as ISO 8601 like sitemap <lastmod> values
+const toIsoDate = (value?: string) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+};
+
+const withoutEmpty = (item: SitemapFeedItem): SitemapFeedItem =>
+  Object.fromEntries(
+    Object.entries(item).filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : Boolean(value)
+    )
+  );
+
+export const parseRssItem = (item: Element): SitemapEntry | null => {
+  const guid = findAll(item, null, "guid")[0];
+  const permalink =
+    guid && guid.getAttribute("isPermaLink") !== "false"
+      ? guid.textContent?.trim()
+      : undefined;
+  const url = textOf(item, null, "link")?.trim() || permalink;
+  if (!url) return null;
+
+  return {
+    url,
+    lastModified: toIsoDate(textOf(item, null, "pubDate")?.trim()),
+    changeFrequency: "",
+    priority: "",
+    feed: withoutEmpty({
+      title: textOf(item, null, "title")?.trim(),
+      // <author> holds an email address, so prefer <dc:creator> when present
+      author: (
+        textOf(item, DUBLIN_CORE_NAMESPACE, "creator") ||
+        textOf(item, null, "author")
+      )?.trim(),
+      categories: findAll(item, null, "category")
+        .map((category) => category.textContent?.trim() || "")
+        .filter(Boolean),
+    }),
+  };
+};
+
+export const parseAtomEntry = (entry: Element): SitemapEntry | null => {
+  const links = findAll(entry, ATOM_NAMESPACE, "link");
+  const link =
+    links.find((element) => element.getAttribute("rel") === "alternate") ??
+    links.find((element) => !element.getAttribute("rel"));
+  const url = link?.getAttribute("href")?.trim();
+  if (!url) return null;
+
+  const author = findAll(entry, ATOM_NAMESPACE, "author")[0];
+  return {
+    url,
+    lastModified: (
+      textOf(entry, ATOM_NAMESPACE, "updated") ||
+      textOf(entry, ATOM_NAMESPACE, "published") ||
+      ""
+    ).trim(),
+    changeFrequency: "",
+    priority: "",
+    feed: withoutEmpty({
+      title: textOf(entry, ATOM_NAMESPACE, "title")?.trim(),
+      author: author && textOf(author, ATOM_NAMESPACE, "name")?.trim(),
+      categories: findAll(entry, ATOM_NAMESPACE, "category")
+        .map((category) => category.getAttribute("term")?.trim() || "")
+        .filter(Boolean),
+    }),
+  };
+};
+
+/**
+ * Maps the items of an RSS 2.0 feed or the entries of an Atom feed to sitemap
+ * entries. Items without a link are skipped and reported in `warnings`.
+ */
+export const parseFeed = (
+  xmlDoc: Document,
+  format: "rss" | "atom",
+  warnings: string[],
+  onProgress?: ProgressCallback
+): SitemapEntry[] => {
+  // RSS 2.0 elements are in no namespace
+  const [namespace, tag, parseItem] =
+    format === "rss"
+      ? ([null, "item", parseRssItem] as const)
+      : ([ATOM_NAMESPACE, "entry", parseAtomEntry] as const);
+
+  const entries: SitemapEntry[] = [];
+  const elements = findAll(xmlDoc, namespace, tag);
+  const reportProgress = createProgressReporter(elements.length, onProgress);
+  elements.forEach((element, index) => {
+    const entry = parseItem(element);
+    if (entry) {
+      entries.push(entry);
+    } else {
+      warnings.push(`Skipped <${tag}> #${index + 1} without a link`);
+    }
+    reportProgress(index + 1);
+  });
+  return entries;
+};
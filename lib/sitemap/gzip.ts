@@ -0,0 +1,125 @@
+import { decodeSitemapBytes } from "./encoding";
+
+// The sitemaps.org protocol caps a sitemap at 50 MB uncompressed
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+// Not yet part of the DOM typings this project compiles against
+export type DecompressionStreamConstructor = new (
+  format: "gzip" | "deflate-raw"
+) => TransformStream<Uint8Array, Uint8Array>;
+
+// Gzip streams start with the magic bytes 1f 8b, whatever the file is called
+export const isGzip = (bytes: Uint8Array) =>
+  bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+/**
+ * Opens an uploaded sitemap as a byte stream, decompressing gzip (.xml.gz)
+ * files on the fly with the browser's DecompressionStream. `onRead` receives
+ * the number of file bytes consumed so far, before decompression.
+ */
+export const openSitemapStream = async (
+  file: Blob,
+  onRead?: (bytesRead: number) => void
+): Promise<ReadableStream<Uint8Array>> => {
+  let bytesRead = 0;
+  const stream = onRead
+    ? file.stream().pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform: (chunk, controller) => {
+            bytesRead += chunk.length;
+            onRead(bytesRead);
+            controller.enqueue(chunk);
+          },
+        })
+      )
+    : file.stream();
+
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  if (!isGzip(head)) return stream;
+
+  const { DecompressionStream } = globalThis as unknown as {
+    DecompressionStream?: DecompressionStreamConstructor;
+  };
+  if (!DecompressionStream) {
+    throw new Error("This browser cannot decompress .gz files");
+  }
+  return stream.pipeThrough(new DecompressionStream("gzip"));
+};
+
+export interface ReadSitemapOptions {
+  // Cap on the decompressed size of gzipped files
+  maxBytes?: number;
+  // Receives the number of file bytes read so far
+  onRead?: (bytesRead: number) => void;
+  // Stops reading and rejects with the signal's reason
+  signal?: AbortSignal;
+  // Receives problems with the file's character encoding
+  onWarning?: (message: string) => void;
+}
+
+// Decodes the file's bytes in the encoding it declares (see ./encoding)
+const decodeFile = (
+  bytes: Uint8Array,
+  onWarning?: (message: string) => void
+) => {
+  const { text, warnings } = decodeSitemapBytes(bytes);
+  warnings.forEach((warning) => onWarning?.(warning));
+  return text;
+};
+
+/**
+ * Reads an uploaded sitemap as text, transparently decompressing gzip
+ * (.xml.gz) files with the browser's DecompressionStream. The text is decoded
+ * in the encoding named by its byte order mark or XML declaration. Throws
+ * once the decompressed XML grows past `maxBytes`.
+ */
+export const readSitemapFile = async (
+  file: Blob,
+  {
+    maxBytes = MAX_SITEMAP_BYTES,
+    onRead,
+    signal,
+    onWarning,
+  }: ReadSitemapOptions = {}
+): Promise<string> => {
+  signal?.throwIfAborted();
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const gzip = isGzip(head);
+  if (!gzip && !onRead && !signal) {
+    return decodeFile(new Uint8Array(await file.arrayBuffer()), onWarning);
+  }
+
+  const reader = (await openSitemapStream(file, onRead)).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      signal?.throwIfAborted();
+      size += value.length;
+      if (gzip && size > maxBytes) {
+        throw new RangeError(
+          `Decompressed sitemap is larger than ${Math.round(
+            maxBytes / 1024 / 1024
+          )} MB`
+        );
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    if (signal?.aborted) throw signal.reason;
+    throw error instanceof RangeError || !gzip
+      ? error
+      : new Error("The .gz file could not be decompressed");
+  }
+
+  const bytes = new Uint8Array(size);
+  chunks.reduce((offset, chunk) => {
+    bytes.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return decodeFile(bytes, onWarning);
+};
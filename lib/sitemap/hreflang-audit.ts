@@ -0,0 +1,134 @@
+import { LANGUAGE_CODES, REGION_CODES } from "./iso-codes";
+import type { HreflangFinding, SitemapEntry } from "./types";
+
+// language[-Script][-REGION], e.g. "en", "en-GB" or "zh-Hant-TW"
+const HREFLANG_PATTERN = /^([a-z]{2})(?:-([a-z]{4}))?(?:-([a-z]{2}))?$/i;
+
+const X_DEFAULT = "x-default";
+
+const validateHreflang = (hreflang: string): string | undefined => {
+  if (!hreflang) return "is empty";
+  if (hreflang.toLowerCase() === X_DEFAULT) return undefined;
+
+  const match = HREFLANG_PATTERN.exec(hreflang);
+  if (!match) return "is not a language[-region] code";
+
+  const [, language, , region] = match;
+  if (!LANGUAGE_CODES.has(language.toLowerCase())) {
+    return `uses unknown ISO 639-1 language "${language}"`;
+  }
+  if (region && !REGION_CODES.has(region.toUpperCase())) {
+    return `uses unknown ISO 3166-1 region "${region}"`;
+  }
+  return undefined;
+};
+
+/**
+ * Checks the hreflang cluster of every entry that has alternates: codes must
+ * be valid ISO 639-1 / 3166-1 values, each page must reference itself, use at
+ * most one x-default, map each hreflang to a single URL, and every alternate
+ * listed in the sitemap must link back. Alternates that are not in the
+ * sitemap cannot be checked for return links and are reported as such.
+ */
+export const auditHreflang = (entries: SitemapEntry[]): HreflangFinding[] => {
+  const findings: HreflangFinding[] = [];
+  const entriesByUrl = new Map(entries.map((entry) => [entry.url, entry]));
+
+  entries.forEach((entry) => {
+    const alternates = entry.alternates ?? [];
+    if (alternates.length === 0) return;
+
+    const { url } = entry;
+
+    if (!alternates.some((alternate) => alternate.href === url)) {
+      findings.push({
+        severity: "error",
+        check: "self-reference",
+        url,
+        message: "Page does not list itself among its alternates",
+      });
+    }
+
+    const defaults = alternates.filter(
+      (alternate) => alternate.hreflang.toLowerCase() === X_DEFAULT
+    );
+    if (defaults.length > 1) {
+      findings.push({
+        severity: "error",
+        check: "x-default",
+        url,
+        hreflang: X_DEFAULT,
+        message: `x-default is declared ${defaults.length} times`,
+      });
+    }
+
+    const targets = new Map<string, Set<string>>();
+    alternates.forEach(({ hreflang, href }) => {
+      const key = hreflang.toLowerCase();
+      targets.set(key, (targets.get(key) ?? new Set()).add(href));
+    });
+
+    alternates.forEach(({ hreflang, href }, index) => {
+      const key = hreflang.toLowerCase();
+      const isFirst =
+        alternates.findIndex(
+          (alternate) => alternate.hreflang.toLowerCase() === key
+        ) === index;
+
+      // Report code problems and conflicts once per hreflang value
+      if (isFirst) {
+        const problem = validateHreflang(hreflang);
+        if (problem) {
+          findings.push({
+            severity: "error",
+            check: "invalid-code",
+            url,
+            hreflang,
+            href,
+            message: `hreflang "${hreflang}" ${problem}`,
+          });
+        }
+
+        const hrefs = targets.get(key) ?? new Set();
+        if (key !== X_DEFAULT && hrefs.size > 1) {
+          findings.push({
+            severity: "error",
+            check: "conflicting-target",
+            url,
+            hreflang,
+            message: `hreflang "${hreflang}" points to ${
+              hrefs.size
+            } different URLs: ${Array.from(hrefs).join(", ")}`,
+          });
+        }
+      }
+
+      if (href === url) return;
+
+      const target = entriesByUrl.get(href);
+      if (!target) {
+        findings.push({
+          severity: "warning",
+          check: "missing-from-sitemap",
+          url,
+          hreflang,
+          href,
+          message: "Alternate URL is not listed in the sitemap",
+        });
+      } else if (
+        !(target.alternates ?? []).some((alternate) => alternate.href === url)
+      ) {
+        findings.push({
+          severity: "error",
+          check: "return-link",
+          url,
+          hreflang,
+          href,
+          message: "Alternate does not link back to this page",
+        });
+      }
+    });
+  });
+
+  return findings;
+};
@@ -0,0 +1,47 @@
+import { findAll } from "./dom";
+import { XHTML_NAMESPACE } from "./namespaces";
+import type { SitemapAlternate, SitemapEntry } from "./types";
+
+/**
+ * Reads the <xhtml:link> hreflang alternates of a <url> element. Links
+ * without an href are skipped and reported through `onWarning`.
+ */
+export const parseAlternates = (
+  urlElement: Element,
+  onWarning: (message: string) => void
+): SitemapAlternate[] => {
+  const alternates: SitemapAlternate[] = [];
+
+  findAll(urlElement, XHTML_NAMESPACE, "link").forEach((linkElement, index) => {
+    const href = linkElement.getAttribute("href");
+    if (!href) {
+      onWarning(`skipped <xhtml:link> #${index + 1} without an href`);
+      return;
+    }
+
+    alternates.push({
+      hreflang: linkElement.getAttribute("hreflang") || "",
+      href,
+    });
+  });
+
+  return alternates;
+};
+
+// Alternates as a single "hreflang: href; ..." string
+export const formatAlternates = (alternates: SitemapAlternate[] = []) =>
+  alternates
+    .map((alternate) => `${alternate.hreflang}: ${alternate.href}`)
+    .join("; ");
+
+export const hasAlternates = (entries: SitemapEntry[]) =>
+  entries.some((entry) => (entry.alternates?.length ?? 0) > 0);
+
+// Every hreflang value used across the entries, in order of discovery
+export const collectLocales = (entries: SitemapEntry[]): string[] => {
+  const locales = new Set<string>();
+  entries.forEach((entry) =>
+    entry.alternates?.forEach((alternate) => locales.add(alternate.hreflang))
+  );
+  return Array.from(locales);
+};
@@ -0,0 +1,35 @@
+import { findAll, textOf } from "./dom";
+import { IMAGE_NAMESPACE } from "./namespaces";
+import type { SitemapImage } from "./types";
+
+/**
+ * Reads the <image:image> blocks of a <url> element. Images without an
+ * <image:loc> are skipped and reported through `onWarning`.
+ */
+export const parseImages = (
+  urlElement: Element,
+  onWarning: (message: string) => void
+): SitemapImage[] => {
+  const images: SitemapImage[] = [];
+
+  findAll(urlElement, IMAGE_NAMESPACE, "image").forEach(
+    (imageElement, index) => {
+      const loc = textOf(imageElement, IMAGE_NAMESPACE, "loc");
+      if (!loc) {
+        onWarning(`skipped <image:image> #${index + 1} without an <image:loc>`);
+        return;
+      }
+
+      images.push({
+        loc,
+        caption: textOf(imageElement, IMAGE_NAMESPACE, "caption") || "",
+        title: textOf(imageElement, IMAGE_NAMESPACE, "title") || "",
+        geoLocation:
+          textOf(imageElement, IMAGE_NAMESPACE, "geo_location") || "",
+        license: textOf(imageElement, IMAGE_NAMESPACE, "license") || "",
+      });
+    }
+  );
+
+  return images;
+};
@@ -0,0 +1,120 @@
+export {
+  cleanPastedContent,
+  cleanXmlContent,
+  FILE_NORMALIZERS,
+  PASTE_NORMALIZERS,
+} from "./clean";
+export type { CleanedContent, PasteNormalizer } from "./clean";
+export {
+  addToCsvSummary,
+  buildCsv,
+  createCsvSummary,
+  createSitemapCsvWriter,
+  hasFeedItems,
+  hasImages,
+  hasNews,
+  hasSourceSitemaps,
+  hasVideos,
+  hreflangFindingsToCsv,
+  protocolFindingsToCsv,
+  schemaErrorsToCsv,
+  sitemapToCsv,
+  summarizeEntries,
+  videosToCsv,
+} from "./csv";
+export type {
+  AlternatesExportMode,
+  CsvColumn,
+  CsvOptions,
+  CsvSummary,
+  ImageExportMode,
+  SitemapCsvWriter,
+} from "./csv";
+export { SitemapParseError, toParseErrorDetails } from "./errors";
+export type {
+  ParseErrorLocation,
+  SitemapParseErrorCode,
+  SitemapParseErrorDetails,
+} from "./errors";
+export { decodeSitemapBytes, sniffEncoding } from "./encoding";
+export type { DecodedSitemap, SniffedEncoding } from "./encoding";
+export {
+  isGzip,
+  MAX_SITEMAP_BYTES,
+  openSitemapStream,
+  readSitemapFile,
+} from "./gzip";
+export { collectLocales, formatAlternates, hasAlternates } from "./hreflang";
+export { auditHreflang } from "./hreflang-audit";
+export { mergeSitemaps } from "./merge";
+export type {
+  DedupeMode,
+  MergedSitemaps,
+  MergeSource,
+  MergeStats,
+  SourceOverlap,
+} from "./merge";
+export {
+  ATOM_NAMESPACE,
+  DUBLIN_CORE_NAMESPACE,
+  IMAGE_NAMESPACE,
+  matchesNamespace,
+  NEWS_NAMESPACE,
+  SITEMAP_NAMESPACE,
+  VIDEO_NAMESPACE,
+  XHTML_NAMESPACE,
+} from "./namespaces";
+export { parseSitemap, parseSitemapContent, toSitemapRows } from "./parse";
+export { progressPercent } from "./progress";
+export { extractLocations, repairSitemapXml } from "./recover";
+export { resolveSitemapIndex } from "./resolve";
+export { createXmlTokenizer } from "./sax";
+export { parseSitemapStream, streamSitemapToCsv } from "./stream";
+export { isTextSitemap, parseTextSitemap } from "./text";
+export {
+  MAX_SITEMAP_URLS,
+  validateSitemapDocument,
+  validateTextSitemap,
+} from "./validate";
+export { SCHEMAS } from "./schemas";
+export type { SchemaDecl } from "./schemas";
+export { MAX_SCHEMA_ERRORS, validateAgainstSchemas } from "./xsd";
+export {
+  expandZipArchives,
+  isZip,
+  readZipArchive,
+  SITEMAP_FILE_PATTERN,
+} from "./zip";
+export type { ProgressCallback, ProgressUpdate } from "./progress";
+export type { RepairedXml } from "./recover";
+export type {
+  FetchedSitemap,
+  ResolvedSitemapIndex,
+  ResolveOptions,
+} from "./resolve";
+export type { XmlTag, XmlTokenHandlers, XmlTokenizer } from "./sax";
+export type { ZipContents } from "./zip";
+export type {
+  StreamCsvOptions,
+  StreamedCsv,
+  StreamParseOptions,
+} from "./stream";
+export type {
+  FindingSeverity,
+  HreflangCheck,
+  HreflangFinding,
+  ParseOptions,
+  ParseResult,
+  ProtocolCheck,
+  ProtocolFinding,
+  SchemaError,
+  SitemapAlternate,
+  SitemapEntry,
+  SitemapFeedItem,
+  SitemapFormat,
+  SitemapImage,
+  SitemapIndexEntry,
+  SitemapNews,
+  SitemapVideo,
+  SourceExcerpt,
+} from "./types";
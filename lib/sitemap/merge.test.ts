@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { mergeSitemaps } from "./merge";
+import type { SitemapEntry } from "./types";
+
+const page = (url: string): SitemapEntry => ({
+  url,
+  lastModified: "",
+  changeFrequency: "",
+  priority: "",
+});
+
+describe("mergeSitemaps", () => {
+  it("counts sources with the same file name separately", () => {
+    const { entries, stats } = mergeSitemaps([
+      {
+        name: "sitemap.xml",
+        entries: [page("https://example.com/a"), page("https://example.com/b")],
+      },
+      { name: "sitemap.xml", entries: [page("https://example.com/a")] },
+    ]);
+
+    expect(
+      entries.map(({ url, sourceSitemap }) => [url, sourceSitemap])
+    ).toEqual([
+      ["https://example.com/a", "sitemap.xml; sitemap.xml"],
+      ["https://example.com/b", "sitemap.xml"],
+    ]);
+    expect(stats).toEqual({
+      total: 3,
+      duplicates: 1,
+      overlapping: 1,
+      sources: [
+        { name: "sitemap.xml", urls: 2, shared: 1 },
+        { name: "sitemap.xml", urls: 1, shared: 1 },
+      ],
+    });
+  });
+
+  it("compares normalised URLs in normalized mode", () => {
+    const { entries, stats } = mergeSitemaps(
+      [
+        { name: "a.xml", entries: [page("https://Example.com/page/")] },
+        { name: "b.xml", entries: [page("https://example.com/page#top")] },
+      ],
+      "normalized"
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(stats.overlapping).toBe(1);
+  });
+
+  it("keeps every entry without de-duplication", () => {
+    const { entries, stats } = mergeSitemaps(
+      [
+        { name: "a.xml", entries: [page("https://example.com/")] },
+        { name: "a.xml", entries: [page("https://example.com/")] },
+      ],
+      "none"
+    );
+
+    expect(entries).toHaveLength(2);
+    expect(stats.duplicates).toBe(0);
+    expect(stats.overlapping).toBe(1);
+  });
+});
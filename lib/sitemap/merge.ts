@@ -0,0 +1,126 @@
+import type { SitemapEntry } from "./types";
+
+// How entries for the same URL in different sources are combined
+export type DedupeMode =
+  // Keep every entry
+  | "none"
+  // Keep the first entry per URL, compared character for character
+  | "exact"
+  // Also treat URLs differing only in host case, a trailing slash or a
+  // fragment as the same page
+  | "normalized";
+
+export interface MergeSource {
+  // Shown in the source column, e.g. the uploaded file's name; sources are
+  // told apart by position, so names may repeat
+  name: string;
+  entries: SitemapEntry[];
+}
+
+export interface SourceOverlap {
+  name: string;
+  // Distinct URLs in the source
+  urls: number;
+  // How many of them also appear in another source
+  shared: number;
+}
+
+export interface MergeStats {
+  // Entries across all sources, before de-duplication
+  total: number;
+  // Entries removed as duplicates
+  duplicates: number;
+  // Distinct URLs that appear in more than one source
+  overlapping: number;
+  sources: SourceOverlap[];
+}
+
+export interface MergedSitemaps {
+  // Entries tagged with `sourceSitemap`, in source order
+  entries: SitemapEntry[];
+  stats: MergeStats;
+}
+
+const normalizeUrl = (url: string) => {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = "";
+    if (parsed.pathname.length > 1) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+    }
+    return parsed.href;
+  } catch {
+    return url.trim();
+  }
+};
+
+/**
+ * Merges the entries of several sitemaps, tagging each with the name of its
+ * source in `sourceSitemap`. With de-duplication the first entry per URL is
+ * kept and lists every source the URL appeared in. Overlap is counted by the
+ * same URL comparison, or exactly when nothing is de-duplicated. Sources are
+ * told apart by their index, so files sharing a name are still counted
+ * separately.
+ */
+export const mergeSitemaps = (
+  sources: MergeSource[],
+  dedupe: DedupeMode = "exact"
+): MergedSitemaps => {
+  const keyOf = dedupe === "normalized" ? normalizeUrl : (url: string) => url;
+
+  // Index of every source each URL appears in, in source order
+  const sourcesByKey = new Map<string, number[]>();
+  sources.forEach(({ entries }, index) =>
+    entries.forEach(({ url }) => {
+      const indexes = sourcesByKey.get(keyOf(url)) ?? [];
+      if (!indexes.includes(index)) indexes.push(index);
+      sourcesByKey.set(keyOf(url), indexes);
+    })
+  );
+
+  const entries: SitemapEntry[] = [];
+  const seen = new Set<string>();
+  let total = 0;
+  sources.forEach(({ name, entries: sourceEntries }, index) =>
+    sourceEntries.forEach((entry) => {
+      total++;
+      const key = keyOf(entry.url);
+      if (dedupe === "none") {
+        entries.push({ ...entry, sourceSitemap: name });
+        return;
+      }
+      if (seen.has(key)) return;
+      seen.add(key);
+      entries.push({
+        ...entry,
+        sourceSitemap: (sourcesByKey.get(key) ?? [index])
+          .map((source) => sources[source].name)
+          .join("; "),
+      });
+    })
+  );
+
+  const overlapStats = sources.map(({ name, entries: sourceEntries }) => {
+    const keys = new Set(sourceEntries.map(({ url }) => keyOf(url)));
+    let shared = 0;
+    keys.forEach((key) => {
+      if ((sourcesByKey.get(key)?.length ?? 0) > 1) shared++;
+    });
+    return { name, urls: keys.size, shared };
+  });
+
+  let overlapping = 0;
+  sourcesByKey.forEach((indexes) => {
+    if (indexes.length > 1) overlapping++;
+  });
+
+  return {
+    entries,
+    stats: {
+      total,
+      duplicates: total - entries.length,
+      overlapping,
+      sources: overlapStats,
+    },
+  };
+};
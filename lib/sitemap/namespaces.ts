@@ -0,0 +1,44 @@
+// Namespaces of the sitemap protocol, the Google extensions and the feed
+// formats that are accepted as sitemaps. Elements are matched by namespace
+// URI and local name, so any prefix (or none) works.
+
+export const SITEMAP_NAMESPACE = "http://www.sitemaps.org/schemas/sitemap/0.9";
+export const IMAGE_NAMESPACE =
+  "http://www.google.com/schemas/sitemap-image/1.1";
+export const VIDEO_NAMESPACE =
+  "http://www.google.com/schemas/sitemap-video/1.1";
+export const NEWS_NAMESPACE = "http://www.google.com/schemas/sitemap-news/0.9";
+export const XHTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+export const ATOM_NAMESPACE = "http://www.w3.org/2005/Atom";
+export const DUBLIN_CORE_NAMESPACE = "http://purl.org/dc/elements/1.1/";
+
+// Google's namespace from before sitemaps.org, still found on old sites
+const LEGACY_SITEMAP_NAMESPACE = "http://www.google.com/schemas/sitemap/0.84";
+
+// Namespace URIs are compared without their scheme or a trailing slash, which
+// generators get wrong often enough that insisting on them loses real data
+const normalize = (uri: string) =>
+  uri.replace(/^https?:\/\//i, "").replace(/\/+$/, "");
+
+/**
+ * Whether an element's `namespaceURI` is `namespace`; null stands for no
+ * namespace, as used by RSS. Sitemaps are often published without declaring
+ * their namespace, so unqualified elements match the sitemap namespace too.
+ */
+export const matchesNamespace = (
+  namespaceURI: string | null,
+  namespace: string | null
+): boolean => {
+  if (namespace === null || namespaceURI === null) {
+    return (
+      namespaceURI === namespace ||
+      (namespaceURI === null && namespace === SITEMAP_NAMESPACE)
+    );
+  }
+  const actual = normalize(namespaceURI);
+  return (
+    actual === normalize(namespace) ||
+    (namespace === SITEMAP_NAMESPACE &&
+      actual === normalize(LEGACY_SITEMAP_NAMESPACE))
+  );
+};
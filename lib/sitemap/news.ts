@@ -0,0 +1,44 @@
+import { findFirst, textOf } from "./dom";
+import { NEWS_NAMESPACE } from "./namespaces";
+import type { SitemapNews } from "./types";
+
+/**
+ * Reads the <news:news> block of a <url> element. Articles missing one of the
+ * fields Google requires are kept, but reported through `onWarning`.
+ */
+export const parseNews = (
+  urlElement: Element,
+  onWarning: (message: string) => void
+): SitemapNews | undefined => {
+  const newsElement = findFirst(urlElement, NEWS_NAMESPACE, "news");
+  if (!newsElement) return undefined;
+
+  const publication = findFirst(newsElement, NEWS_NAMESPACE, "publication");
+  const news: SitemapNews = {
+    publicationName:
+      (publication && textOf(publication, NEWS_NAMESPACE, "name")) || "",
+    publicationLanguage:
+      (publication && textOf(publication, NEWS_NAMESPACE, "language")) || "",
+    publicationDate:
+      textOf(newsElement, NEWS_NAMESPACE, "publication_date") || "",
+    title: textOf(newsElement, NEWS_NAMESPACE, "title") || "",
+    keywords: (textOf(newsElement, NEWS_NAMESPACE, "keywords") || "")
+      .split(",")
+      .map((keyword) => keyword.trim())
+      .filter(Boolean),
+    genres: textOf(newsElement, NEWS_NAMESPACE, "genres") || "",
+    stockTickers: textOf(newsElement, NEWS_NAMESPACE, "stock_tickers") || "",
+  };
+
+  const missing = [
+    !news.publicationName && "<news:name>",
+    !news.publicationLanguage && "<news:language>",
+    !news.publicationDate && "<news:publication_date>",
+    !news.title && "<news:title>",
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    onWarning(`<news:news> is missing ${missing.join(", ")}`);
+  }
+
+  return news;
+};
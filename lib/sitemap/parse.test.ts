@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseSitemapContent } from "./parse";
+
+const SAVED_FROM_VIEWER = `This XML file does not appear to have any style information associated with it. The document tree is shown below.
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/</loc></url>
+</urlset>`;
+
+describe("parseSitemapContent", () => {
+  it("removes browser messages and leading text from uploads and fetches", () => {
+    const result = parseSitemapContent(SAVED_FROM_VIEWER);
+
+    expect(result.entries.map(({ url }) => url)).toEqual([
+      "https://example.com/",
+    ]);
+    expect(result.cleaned).toEqual([
+      "Removed the browser's XML viewer messages",
+    ]);
+  });
+
+  it("leaves the XML of uploads and fetches otherwise untouched", () => {
+    // A smart quote in an attribute is only repaired when pasted
+    const xml = `<urlset xmlns=“http://www.sitemaps.org/schemas/sitemap/0.9”>
+  <url><loc>https://example.com/</loc></url>
+</urlset>`;
+
+    expect(parseSitemapContent(xml).cleaned).toBeUndefined();
+    expect(parseSitemapContent(xml, { pasted: true }).cleaned).toEqual([
+      "Replaced smart quotes around attribute values",
+    ]);
+  });
+
+  it("reports nothing when no cleanup was needed", () => {
+    const result = parseSitemapContent(
+      `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><url><loc>https://example.com/</loc></url></urlset>`
+    );
+
+    expect(result.cleaned).toBeUndefined();
+  });
+});
@@ -0,0 +1,251 @@
+import {
+  cleanPastedContent,
+  FILE_NORMALIZERS,
+  PASTE_NORMALIZERS,
+} from "./clean";
+import { findAll, parseXmlDocument, textOf } from "./dom";
+import { SitemapParseError } from "./errors";
+import { parseFeed } from "./feed";
+import { parseAlternates } from "./hreflang";
+import { parseImages } from "./image";
+import { SITEMAP_NAMESPACE } from "./namespaces";
+import { parseNews } from "./news";
+import { createProgressReporter } from "./progress";
+import { extractLocations, repairSitemapXml } from "./recover";
+import { isTextSitemap, parseTextSitemap } from "./text";
+import { validateSitemapDocument } from "./validate";
+import { validateAgainstSchemas } from "./xsd";
+import { parseVideos } from "./video";
+import type {
+  ParseOptions,
+  ParseResult,
+  SitemapEntry,
+  SitemapFormat,
+  SitemapIndexEntry,
+} from "./types";
+
+// The format of a document, judged by the local name of its root element
+export const formatOfRoot = (localName?: string | null): SitemapFormat => {
+  switch (localName) {
+    case "urlset":
+      return "urlset";
+    case "sitemapindex":
+      return "sitemapindex";
+    case "rss":
+      return "rss";
+    case "feed":
+      return "atom";
+    default:
+      return "unknown";
+  }
+};
+
+export const parseUrlElement = (
+  urlElement: Element,
+  warnings: string[]
+): SitemapEntry | null => {
+  const loc = textOf(urlElement, SITEMAP_NAMESPACE, "loc");
+  if (!loc) return null;
+
+  const entry: SitemapEntry = {
+    url: loc,
+    lastModified: textOf(urlElement, SITEMAP_NAMESPACE, "lastmod") || "",
+    changeFrequency: textOf(urlElement, SITEMAP_NAMESPACE, "changefreq") || "",
+    priority: textOf(urlElement, SITEMAP_NAMESPACE, "priority") || "",
+  };
+
+  const onWarning = (message: string) => warnings.push(`${loc}: ${message}`);
+
+  const alternates = parseAlternates(urlElement, onWarning);
+  if (alternates.length > 0) {
+    entry.alternates = alternates;
+  }
+
+  const images = parseImages(urlElement, onWarning);
+  if (images.length > 0) {
+    entry.images = images;
+  }
+
+  const videos = parseVideos(urlElement, onWarning);
+  if (videos.length > 0) {
+    entry.videos = videos;
+  }
+
+  const news = parseNews(urlElement, onWarning);
+  if (news) {
+    entry.news = news;
+  }
+
+  return entry;
+};
+
+export const parseSitemapElement = (
+  sitemapElement: Element
+): SitemapIndexEntry | null => {
+  const loc = textOf(sitemapElement, SITEMAP_NAMESPACE, "loc");
+  if (!loc) return null;
+
+  return {
+    url: loc,
+    lastModified: textOf(sitemapElement, SITEMAP_NAMESPACE, "lastmod") || "",
+  };
+};
+
+// Salvages the <loc> values of XML that could not be repaired, listing them
+// as pages or, for a sitemap index, as child sitemaps
+const parseLocations = (
+  input: string,
+  error: SitemapParseError,
+  warnings: string[]
+): ParseResult => {
+  const locations = extractLocations(input);
+  if (locations.length === 0) throw error;
+
+  warnings.push(
+    `Could not repair the XML (${error.message}); extracted ${
+      locations.length
+    } <loc> value${locations.length === 1 ? "" : "s"} without parsing it`
+  );
+  if (/<sitemapindex[\s>]/.test(input)) {
+    return {
+      format: "sitemapindex",
+      entries: [],
+      sitemaps: locations.map((url) => ({ url, lastModified: "" })),
+      warnings,
+    };
+  }
+  return {
+    format: /<urlset[\s>]/.test(input) ? "urlset" : "unknown",
+    entries: locations.map((url) => ({
+      url,
+      lastModified: "",
+      changeFrequency: "",
+      priority: "",
+    })),
+    sitemaps: [],
+    warnings,
+  };
+};
+
+/**
+ * Parses sitemap XML, or an RSS 2.0 / Atom feed, into typed entries. The XML
+ * is parsed as given; use `parseSitemapContent` to have user input cleaned up
+ * first (see ./clean). Throws when the XML is not well-formed, unless `recover` is set: malformed XML is then
+ * repaired (see ./recover), or failing that its <loc> values are extracted,
+ * and every repair is reported as a warning. With `validate` set, protocol violations
+ * are returned as `findings` and XSD violations as `schemaErrors`.
+ */
+export const parseSitemap = (
+  input: string,
+  { onProgress, validate, recover }: ParseOptions = {}
+): ParseResult => {
+  const warnings: string[] = [];
+  let content = input;
+  let xmlDoc: Document;
+  try {
+    // Schema errors are reported by line and column
+    xmlDoc = parseXmlDocument(input, { locate: validate });
+  } catch (error) {
+    if (!recover || !(error instanceof SitemapParseError)) throw error;
+
+    const repaired = repairSitemapXml(input);
+    try {
+      xmlDoc = parseXmlDocument(repaired.content, { locate: validate });
+    } catch {
+      return parseLocations(input, error, warnings);
+    }
+    content = repaired.content;
+    repaired.repairs.forEach((repair) =>
+      warnings.push(`Recovered from malformed XML: ${repair}`)
+    );
+  }
+
+  const format = formatOfRoot(xmlDoc.documentElement?.localName);
+  const findings = validate
+    ? validateSitemapDocument(xmlDoc, content)
+    : undefined;
+
+  // RSS and Atom feeds are accepted as sitemaps too
+  if (format === "rss" || format === "atom") {
+    const entries = parseFeed(xmlDoc, format, warnings, onProgress);
+    return { format, entries, sitemaps: [], warnings, findings };
+  }
+
+  const entries: SitemapEntry[] = [];
+  const urlElements = findAll(xmlDoc, SITEMAP_NAMESPACE, "url");
+  const reportProgress = createProgressReporter(urlElements.length, onProgress);
+  urlElements.forEach((urlElement, index) => {
+    const entry = parseUrlElement(urlElement, warnings);
+    if (entry) {
+      entries.push(entry);
+    } else {
+      warnings.push(`Skipped <url> #${index + 1} without a <loc>`);
+    }
+    reportProgress(index + 1);
+  });
+
+  // Handle sitemap index
+  const sitemaps: SitemapIndexEntry[] = [];
+  if (entries.length === 0) {
+    findAll(xmlDoc, SITEMAP_NAMESPACE, "sitemap").forEach(
+      (sitemapElement, index) => {
+        const sitemap = parseSitemapElement(sitemapElement);
+        if (sitemap) {
+          sitemaps.push(sitemap);
+        } else {
+          warnings.push(`Skipped <sitemap> #${index + 1} without a <loc>`);
+        }
+      }
+    );
+  }
+
+  return {
+    format,
+    entries,
+    sitemaps,
+    warnings,
+    findings,
+    schemaErrors:
+      validate && format !== "unknown"
+        ? validateAgainstSchemas(xmlDoc, content)
+        : undefined,
+  };
+};
+
+/**
+ * Parses raw sitemap content as submitted by the user: text sitemaps are
+ * parsed line by line, anything else is parsed as XML. The XML is cleaned up
+ * first, with what the cleaning changed listed in `cleaned`: content marked
+ * as `pasted` goes through every paste normaliser, uploaded and fetched
+ * content only has browser messages and text before the XML removed.
+ */
+export const parseSitemapContent = (
+  content: string,
+  options: ParseOptions = {}
+): ParseResult => {
+  if (isTextSitemap(content)) return parseTextSitemap(content, options);
+
+  const { content: xml, cleaned } = cleanPastedContent(
+    content,
+    options.pasted ? PASTE_NORMALIZERS : FILE_NORMALIZERS
+  );
+  const result = parseSitemap(xml, options);
+  return cleaned.length > 0 ? { ...result, cleaned } : result;
+};
+
+// A sitemap index child as a table row
+export const sitemapIndexRow = (sitemap: SitemapIndexEntry): SitemapEntry => ({
+  url: sitemap.url,
+  lastModified: sitemap.lastModified,
+  changeFrequency: "Sitemap Index",
+  priority: "",
+});
+
+/**
+ * Flattens a parse result into table rows. Sitemap index children are listed
+ * with "Sitemap Index" as their change frequency.
+ */
+export const toSitemapRows = (result: ParseResult): SitemapEntry[] =>
+  result.entries.length > 0
+    ? result.entries
+    : result.sitemaps.map(sitemapIndexRow);
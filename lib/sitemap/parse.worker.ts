@@ -0,0 +1,62 @@
+import { SitemapParseError, toParseErrorDetails } from "./errors";
+import { readSitemapFile } from "./gzip";
+import { parseSitemapContent } from "./parse";
+import type { ParseWorkerMessage, ParseWorkerRequest } from "./worker";
+
+// Entries are posted in slices so no single message holds the whole sitemap
+const CHUNK_SIZE = 5000;
+
+const post = (message: ParseWorkerMessage) => self.postMessage(message);
+
+self.addEventListener(
+  "message",
+  async (event: MessageEvent<ParseWorkerRequest>) => {
+    try {
+      const { source, validate, recover, pasted } = event.data;
+      const encodingWarnings: string[] = [];
+      const content =
+        typeof source === "string"
+          ? source
+          : await readSitemapFile(source, {
+              onRead: (processed) =>
+                post({
+                  type: "progress",
+                  unit: "bytes",
+                  processed,
+                  total: source.size,
+                }),
+              onWarning: (warning) => encodingWarnings.push(warning),
+            });
+
+      const { entries, ...result } = parseSitemapContent(content, {
+        onProgress: (processed, total) =>
+          post({ type: "progress", unit: "entries", processed, total }),
+        validate,
+        recover,
+        pasted,
+      });
+
+      for (let start = 0; start < entries.length; start += CHUNK_SIZE) {
+        post({
+          type: "entries",
+          entries: entries.slice(start, start + CHUNK_SIZE),
+        });
+      }
+      post({
+        type: "done",
+        ...result,
+        warnings: [...encodingWarnings, ...result.warnings],
+      });
+    } catch (error) {
+      post({
+        type: "error",
+        message:
+          error instanceof Error ? error.message : "Failed to parse sitemap",
+        parseError:
+          error instanceof SitemapParseError
+            ? toParseErrorDetails(error)
+            : undefined,
+      });
+    }
+  }
+);
@@ -0,0 +1,37 @@
+export type ProgressCallback = (processed: number, total: number) => void;
+
+const PROGRESS_INTERVAL = 500;
+
+// Calls `onProgress` every PROGRESS_INTERVAL items and once at the end, so
+// large sitemaps do not flood the listener
+export const createProgressReporter =
+  (total: number, onProgress?: ProgressCallback) => (processed: number) => {
+    if (
+      onProgress &&
+      (processed % PROGRESS_INTERVAL === 0 || processed === total)
+    ) {
+      onProgress(processed, total);
+    }
+  };
+
+// A progress report from either stage of turning a file into entries: bytes
+// while the file is read, entries while they are parsed
+export interface ProgressUpdate {
+  unit: "bytes" | "entries";
+  processed: number;
+  total: number;
+}
+
+// Share of the bar given to reading the file; parsing fills the rest
+const READ_SHARE = 0.2;
+
+// Overall completion of a progress update, as a whole percentage
+export const progressPercent = ({ unit, processed, total }: ProgressUpdate) => {
+  const fraction = total > 0 ? Math.min(processed / total, 1) : 1;
+  return Math.round(
+    100 *
+      (unit === "bytes"
+        ? fraction * READ_SHARE
+        : READ_SHARE + fraction * (1 - READ_SHARE))
+  );
+};
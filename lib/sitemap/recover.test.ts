@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { extractLocations, repairSitemapXml } from "./recover";
+
+describe("repairSitemapXml", () => {
+  it("escapes bare ampersands but leaves references alone", () => {
+    const { content, repairs } = repairSitemapXml(
+      "<urlset><url><loc>https://example.com/?a=1&b=2&amp;c=3&#38;d</loc></url></urlset>"
+    );
+
+    expect(content).toBe(
+      "<urlset><url><loc>https://example.com/?a=1&amp;b=2&amp;c=3&#38;d</loc></url></urlset>"
+    );
+    expect(repairs).toEqual(["Escaped 1 bare ampersand"]);
+  });
+
+  it("leaves ampersands inside CDATA sections and comments", () => {
+    const input = `<urlset>
+<!-- Tom & Jerry -->
+<url><loc>https://example.com/?a=1&b=2</loc><image:image><image:caption><![CDATA[Fish & Chips]]></image:caption></image:image></url>
+</urlset>`;
+
+    const { content, repairs } = repairSitemapXml(input);
+
+    expect(content).toContain("<!-- Tom & Jerry -->");
+    expect(content).toContain("<![CDATA[Fish & Chips]]>");
+    expect(content).toContain("?a=1&amp;b=2");
+    expect(repairs).toEqual(["Escaped 1 bare ampersand"]);
+  });
+
+  it("closes a truncated document, keeping the <loc> of the last entry", () => {
+    const { content, repairs } = repairSitemapXml(
+      "<urlset><url><loc>https://example.com/1</loc></url><url><loc>https://example.com/2</loc><lastm"
+    );
+
+    expect(extractLocations(content)).toEqual([
+      "https://example.com/1",
+      "https://example.com/2",
+    ]);
+    expect(content.endsWith("</urlset>")).toBe(true);
+    expect(repairs).toEqual([
+      "Closed a truncated <url> and the <urlset> element",
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+// Repairs for the ways real-world sitemaps are most often broken. Each repair
+// is described so the caller can report what was changed.
+
+export interface RepairedXml {
+  content: string;
+  // One message per kind of repair applied
+  repairs: string[];
+}
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// An "&" that does not start a character or entity reference, or a CDATA
+// section or comment, whose "&" characters are literal and must be kept;
+// either may be cut off by the end of a truncated document
+const BARE_AMPERSAND =
+  /<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<!--[\s\S]*?(?:-->|$)|&(?![A-Za-z_][\w.-]*;|#\d+;|#x[\dA-Fa-f]+;)/g;
+
+// Record elements and the root element that holds them
+const CONTAINERS: [root: string, record: string][] = [
+  ["urlset", "url"],
+  ["sitemapindex", "sitemap"],
+];
+
+/**
+ * Repairs common well-formedness problems in sitemap XML: stray or duplicate
+ * XML declarations, bare ampersands, markup and text between entries or after
+ * the root element, and a document truncated part-way through an entry.
+ */
+export const repairSitemapXml = (input: string): RepairedXml => {
+  const repairs: string[] = [];
+  let content = input;
+
+  // Only a single declaration at the very start is allowed
+  let declarations = 0;
+  content = content.replace(/<\?xml\s[^?]*\?>/gi, (declaration, offset) => {
+    declarations++;
+    return offset === 0 && declarations === 1 ? declaration : "";
+  });
+  const removed = declarations - (content.startsWith("<?xml") ? 1 : 0);
+  if (removed > 0) {
+    repairs.push(`Removed ${plural(removed, "misplaced XML declaration")}`);
+  }
+
+  let ampersands = 0;
+  content = content.replace(BARE_AMPERSAND, (match) => {
+    if (match !== "&") return match;
+    ampersands++;
+    return "&amp;";
+  });
+  if (ampersands > 0) {
+    repairs.push(`Escaped ${plural(ampersands, "bare ampersand")}`);
+  }
+
+  const container = CONTAINERS.find(([root]) =>
+    new RegExp(`<${root}[\\s>]`).test(content)
+  );
+  if (!container) return { content, repairs };
+  const [root, record] = container;
+
+  // Anything but whitespace and comments between entries, e.g. injected HTML
+  let garbage = 0;
+  content = content.replace(
+    new RegExp(
+      `(<${root}[^>]*>|</${record}>)([\\s\\S]*?)(?=<${record}[\\s>]|</${root}>)`,
+      "g"
+    ),
+    (match, tag: string, between: string) => {
+      if (!between.replace(/<!--[\s\S]*?-->/g, "").trim()) return match;
+      garbage++;
+      return `${tag}\n`;
+    }
+  );
+  if (garbage > 0) {
+    repairs.push(
+      `Removed content outside <${record}> elements in ${plural(
+        garbage,
+        "place"
+      )}`
+    );
+  }
+
+  const closing = content.lastIndexOf(`</${root}>`);
+  if (closing !== -1) {
+    const end = closing + root.length + 3;
+    if (content.slice(end).trim()) {
+      content = content.slice(0, end);
+      repairs.push(`Removed content after </${root}>`);
+    }
+    return { content, repairs };
+  }
+
+  // Truncated: keep every complete entry, and the <loc> of an incomplete one
+  const lastRecord = content.lastIndexOf(`</${record}>`);
+  const start =
+    lastRecord !== -1
+      ? lastRecord + record.length + 3
+      : content.search(new RegExp(`<${root}[^>]*>`)) +
+        (content.match(new RegExp(`<${root}[^>]*>`))?.[0].length ?? 0);
+  const tail = content.slice(start);
+  const loc = /<loc>([^<]*)<\/loc>/.exec(tail);
+  content =
+    content.slice(0, start) +
+    (loc ? `\n<${record}><loc>${loc[1]}</loc></${record}>` : "") +
+    `\n</${root}>`;
+  repairs.push(
+    loc
+      ? `Closed a truncated <${record}> and the <${root}> element`
+      : `Closed the truncated <${root}> element`
+  );
+
+  return { content, repairs };
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Pulls every <loc> value out of markup that cannot be parsed as XML at all,
+ * unwrapping CDATA sections and decoding the predefined entities.
+ */
+export const extractLocations = (content: string): string[] => {
+  const locations: string[] = [];
+  const pattern =
+    /<loc(?:\s[^>]*)?>\s*(?:<!\[CDATA\[([\s\S]*?)\]\]>|([^<]*))\s*<\/loc>/gi;
+  for (const match of content.matchAll(pattern)) {
+    const location =
+      match[1] !== undefined
+        ? match[1].trim()
+        : decodeEntities(match[2].trim());
+    if (location) locations.push(location);
+  }
+  return locations;
+};
@@ -0,0 +1,338 @@
+import http, { type RequestListener } from "node:http";
+import type { AddressInfo } from "node:net";
+import { gzipSync } from "node:zlib";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchSitemapText } from "../fetch-sitemap";
+import { resolveSitemapIndex } from "./resolve";
+
+const urlset = (...urls: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map((url) => `  <url><loc>${url}</loc></url>`).join("\n")}
+</urlset>`;
+
+const sitemapIndex = (...sitemaps: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps.map((url) => `  <sitemap><loc>${url}</loc></sitemap>`).join("\n")}
+</sitemapindex>`;
+
+// Serves the given documents by URL, failing like a 404 for anything else
+const standIn = (documents: Record<string, string>) =>
+  vi.fn(async (url: string) => {
+    if (!(url in documents)) throw new Error("Server responded with HTTP 404");
+    return { text: documents[url] };
+  });
+
+const servers: http.Server[] = [];
+
+// Starts a stand-in server on an ephemeral loopback port
+const listen = async (handler: RequestListener) => {
+  const server = http.createServer(handler);
+  servers.push(server);
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", resolve)
+  );
+  const { port } = server.address() as AddressInfo;
+  return { port, origin: `http://127.0.0.1:${port}` };
+};
+
+afterEach(async () => {
+  await Promise.all(
+    servers.splice(0).map(
+      (server) =>
+        new Promise((resolve) => {
+          server.closeAllConnections();
+          server.close(resolve);
+        })
+    )
+  );
+});
+
+describe("resolveSitemapIndex", () => {
+  it("merges child sitemaps in index order, tagged with their source", async () => {
+    const fetchSitemap = standIn({
+      "https://example.com/a.xml": urlset("https://example.com/1"),
+      "https://example.com/b.xml": urlset(
+        "https://example.com/2",
+        "https://example.com/3"
+      ),
+    });
+
+    const result = await resolveSitemapIndex(
+      ["https://example.com/a.xml", "https://example.com/b.xml"],
+      { fetchSitemap }
+    );
+
+    expect(
+      result.entries.map(({ url, sourceSitemap }) => [url, sourceSitemap])
+    ).toEqual([
+      ["https://example.com/1", "https://example.com/a.xml"],
+      ["https://example.com/2", "https://example.com/b.xml"],
+      ["https://example.com/3", "https://example.com/b.xml"],
+    ]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("reports failed children as warnings without failing the rest", async () => {
+    const fetchSitemap = standIn({
+      "https://example.com/a.xml": urlset("https://example.com/1"),
+    });
+
+    const result = await resolveSitemapIndex(
+      ["https://example.com/a.xml", "https://example.com/missing.xml"],
+      { fetchSitemap }
+    );
+
+    expect(result.entries).toHaveLength(1);
+    expect(result.warnings).toEqual([
+      "https://example.com/missing.xml: Server responded with HTTP 404",
+    ]);
+  });
+
+  it("reports the decoding warnings of each child", async () => {
+    const fetchSitemap = vi.fn(async () => ({
+      text: urlset("https://example.com/1"),
+      warnings: ['The file declares encoding "utf-8" but is not valid UTF-8'],
+    }));
+
+    const result = await resolveSitemapIndex(["https://example.com/a.xml"], {
+      fetchSitemap,
+    });
+
+    expect(result.warnings).toEqual([
+      'https://example.com/a.xml: The file declares encoding "utf-8" but is not valid UTF-8',
+    ]);
+  });
+
+  it("stops following nested indexes at the depth limit", async () => {
+    const fetchSitemap = standIn({
+      "https://example.com/level-1.xml": sitemapIndex(
+        "https://example.com/level-2.xml"
+      ),
+      "https://example.com/level-2.xml": sitemapIndex(
+        "https://example.com/level-3.xml"
+      ),
+      "https://example.com/level-3.xml": urlset("https://example.com/page"),
+    });
+
+    const result = await resolveSitemapIndex(
+      ["https://example.com/level-1.xml"],
+      { fetchSitemap, maxDepth: 2 }
+    );
+
+    expect(result.entries).toEqual([]);
+    expect(result.visited).toEqual([
+      "https://example.com/level-1.xml",
+      "https://example.com/level-2.xml",
+    ]);
+    expect(result.warnings).toEqual([
+      "https://example.com/level-2.xml: nested sitemap index not expanded, depth limit of 2 reached",
+    ]);
+  });
+
+  it("fetches each sitemap once when indexes refer to each other", async () => {
+    const fetchSitemap = standIn({
+      "https://example.com/a.xml": sitemapIndex(
+        "https://example.com/b.xml",
+        "https://example.com/pages.xml"
+      ),
+      "https://example.com/b.xml": sitemapIndex("https://example.com/a.xml"),
+      "https://example.com/pages.xml": urlset("https://example.com/1"),
+    });
+
+    const result = await resolveSitemapIndex(["https://example.com/a.xml"], {
+      fetchSitemap,
+      maxDepth: 10,
+    });
+
+    expect(result.entries.map(({ url }) => url)).toEqual([
+      "https://example.com/1",
+    ]);
+    expect(fetchSitemap).toHaveBeenCalledTimes(3);
+    expect(result.warnings).toEqual([
+      "https://example.com/a.xml: skipped, already visited",
+    ]);
+  });
+
+  it("stops fetching once the sitemap cap is reached", async () => {
+    const children = [1, 2, 3, 4].map((n) => `https://example.com/${n}.xml`);
+    const fetchSitemap = standIn(
+      Object.fromEntries(
+        children.map((url) => [url, urlset(url.replace(".xml", ""))])
+      )
+    );
+
+    const result = await resolveSitemapIndex(children, {
+      fetchSitemap,
+      maxSitemaps: 2,
+    });
+
+    expect(result.visited).toEqual(children.slice(0, 2));
+    expect(fetchSitemap).toHaveBeenCalledTimes(2);
+    expect(result.warnings).toEqual([
+      "https://example.com/3.xml: skipped, limit of 2 sitemaps reached",
+      "https://example.com/4.xml: skipped, limit of 2 sitemaps reached",
+    ]);
+  });
+
+  it("rejects with the signal's reason when cancelled", async () => {
+    const controller = new AbortController();
+    const fetchSitemap = vi.fn(async () => {
+      controller.abort(new Error("cancelled"));
+      throw new Error("socket hang up");
+    });
+
+    await expect(
+      resolveSitemapIndex(["https://example.com/a.xml"], {
+        fetchSitemap,
+        signal: controller.signal,
+      })
+    ).rejects.toThrow("cancelled");
+  });
+
+  it("keeps no more than the entry budget", async () => {
+    const fetchSitemap = standIn({
+      "https://example.com/a.xml": urlset(
+        "https://example.com/1",
+        "https://example.com/2"
+      ),
+      "https://example.com/b.xml": urlset(
+        "https://example.com/3",
+        "https://example.com/4"
+      ),
+      "https://example.com/c.xml": urlset("https://example.com/5"),
+    });
+
+    const result = await resolveSitemapIndex(
+      [
+        "https://example.com/a.xml",
+        "https://example.com/b.xml",
+        "https://example.com/c.xml",
+      ],
+      { fetchSitemap, concurrency: 1, maxEntries: 3 }
+    );
+
+    expect(result.entries.map(({ url }) => url)).toEqual([
+      "https://example.com/1",
+      "https://example.com/2",
+      "https://example.com/3",
+    ]);
+    expect(fetchSitemap).toHaveBeenCalledTimes(2);
+    expect(result.warnings).toEqual([
+      "https://example.com/b.xml: only the first 1 entries kept, limit of 3 entries reached",
+      "https://example.com/c.xml: skipped, limit of 3 entries reached",
+    ]);
+  });
+
+  it("returns what it has when the deadline passes", async () => {
+    const fetchSitemap = vi.fn(
+      async (url: string, signal?: AbortSignal) =>
+        new Promise<{ text: string }>((resolve, reject) => {
+          if (url === "https://example.com/fast.xml") {
+            resolve({ text: urlset("https://example.com/1") });
+            return;
+          }
+          // Never answers; gives up only when the signal fires
+          signal?.addEventListener("abort", () =>
+            reject(new Error("The request was cancelled"))
+          );
+        })
+    );
+
+    const result = await resolveSitemapIndex(
+      [
+        "https://example.com/fast.xml",
+        "https://example.com/slow.xml",
+        "https://example.com/queued.xml",
+      ],
+      { fetchSitemap, concurrency: 2, timeoutMs: 50 }
+    );
+
+    expect(result.entries.map(({ url }) => url)).toEqual([
+      "https://example.com/1",
+    ]);
+    expect(result.warnings.sort()).toEqual([
+      "https://example.com/queued.xml: not loaded, time limit of 0.05 seconds reached",
+      "https://example.com/slow.xml: not loaded, time limit of 0.05 seconds reached",
+    ]);
+  });
+
+  it("never runs more fetches at once than the concurrency", async () => {
+    const children = Array.from(
+      { length: 10 },
+      (_, n) => `https://example.com/${n}.xml`
+    );
+    let active = 0;
+    let peak = 0;
+    const fetchSitemap = vi.fn(async (url: string) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return { text: urlset(url.replace(".xml", "")) };
+    });
+
+    const result = await resolveSitemapIndex(children, {
+      fetchSitemap,
+      concurrency: 3,
+    });
+
+    expect(result.entries).toHaveLength(10);
+    expect(peak).toBe(3);
+  });
+
+  it("resolves an index served over HTTP through the guarded fetcher", async () => {
+    const { port, origin } = await listen((request, response) => {
+      switch (request.url) {
+        case "/index.xml":
+          response.end(
+            sitemapIndex(
+              `${origin}/plain.xml`,
+              `${origin}/gzipped.xml.gz`,
+              `${origin}/moved.xml`,
+              `${origin}/broken.xml`
+            )
+          );
+          return;
+        case "/plain.xml":
+          response.end(urlset("https://example.com/plain"));
+          return;
+        case "/gzipped.xml.gz":
+          response.setHeader("Content-Type", "application/gzip");
+          response.end(gzipSync(urlset("https://example.com/gzipped")));
+          return;
+        case "/moved.xml":
+          response.writeHead(301, { Location: "/new-home.xml" });
+          response.end();
+          return;
+        case "/new-home.xml":
+          response.end(urlset("https://example.com/moved"));
+          return;
+        default:
+          response.writeHead(500);
+          response.end("Internal Server Error");
+      }
+    });
+
+    const result = await resolveSitemapIndex([`${origin}/index.xml`], {
+      fetchSitemap: (url, signal) =>
+        fetchSitemapText(url, {
+          allowPrivateNetworks: true,
+          allowedPorts: [port],
+          signal,
+        }),
+    });
+
+    expect(
+      result.entries.map(({ url, sourceSitemap }) => [url, sourceSitemap])
+    ).toEqual([
+      ["https://example.com/plain", `${origin}/plain.xml`],
+      ["https://example.com/gzipped", `${origin}/gzipped.xml.gz`],
+      ["https://example.com/moved", `${origin}/moved.xml`],
+    ]);
+    expect(result.warnings).toEqual([
+      `${origin}/broken.xml: Server responded with HTTP 500`,
+    ]);
+  });
+});
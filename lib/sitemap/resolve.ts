@@ -0,0 +1,197 @@
+import { parseSitemapContent } from "./parse";
+import type { SitemapEntry } from "./types";
+
+// The raw content (XML or text) of a child sitemap, with any warnings raised
+// while decoding it
+export interface FetchedSitemap {
+  text: string;
+  warnings?: string[];
+}
+
+export interface ResolveOptions {
+  // Loads a child sitemap
+  fetchSitemap: (url: string, signal?: AbortSignal) => Promise<FetchedSitemap>;
+  // Child sitemaps fetched at the same time
+  concurrency?: number;
+  // How many levels of nested sitemap indexes are followed
+  maxDepth?: number;
+  // Upper bound on the number of sitemaps fetched in total
+  maxSitemaps?: number;
+  // Upper bound on the number of entries collected in total
+  maxEntries?: number;
+  // Deadline for the whole run; sitemaps still loading when it passes are
+  // reported as warnings and the entries collected so far are returned
+  timeoutMs?: number;
+  // Stops queued fetches and rejects with the signal's reason
+  signal?: AbortSignal;
+}
+
+export interface ResolvedSitemapIndex {
+  // Entries of every child sitemap, tagged with `sourceSitemap`
+  entries: SitemapEntry[];
+  // Sitemap URLs that were fetched, in the order they were queued
+  visited: string[];
+  // Fetch failures, skipped sitemaps and parse warnings of the children
+  warnings: string[];
+}
+
+// Runs at most `concurrency` tasks at once; queued tasks take over the slot
+// of the task that finished instead of competing for it
+const createLimiter = (concurrency: number) => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < concurrency) {
+      active++;
+    } else {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+};
+
+/**
+ * Expands the child sitemaps of a sitemap index into their entries. Nested
+ * indexes are followed up to `maxDepth` levels, and a sitemap that was already
+ * visited is skipped so index loops terminate. Entries keep the document order
+ * of the index, regardless of the order in which fetches complete. Once
+ * `maxEntries` entries are collected or `timeoutMs` has passed, the remaining
+ * sitemaps are skipped with a warning.
+ */
+export const resolveSitemapIndex = async (
+  sitemapUrls: string[],
+  {
+    fetchSitemap,
+    concurrency = 4,
+    maxDepth = 3,
+    maxSitemaps = 500,
+    maxEntries = 200_000,
+    timeoutMs = 60_000,
+    signal,
+  }: ResolveOptions
+): Promise<ResolvedSitemapIndex> => {
+  const limit = createLimiter(concurrency);
+  const visited = new Set<string>();
+  const warnings: string[] = [];
+  let entryCount = 0;
+
+  // Aborted by the deadline or by `signal`, and handed to every fetch so the
+  // deadline also cuts off downloads in progress
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const abort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) abort();
+  signal?.addEventListener("abort", abort, { once: true });
+  const deadlineWarning = `time limit of ${timeoutMs / 1000} seconds reached`;
+  const entryLimitWarning = `limit of ${maxEntries} entries reached`;
+
+  const resolve = async (
+    url: string,
+    depth: number
+  ): Promise<SitemapEntry[]> => {
+    if (visited.has(url)) {
+      warnings.push(`${url}: skipped, already visited`);
+      return [];
+    }
+    if (visited.size >= maxSitemaps) {
+      warnings.push(
+        `${url}: skipped, limit of ${maxSitemaps} sitemaps reached`
+      );
+      return [];
+    }
+    if (entryCount >= maxEntries) {
+      warnings.push(`${url}: skipped, ${entryLimitWarning}`);
+      return [];
+    }
+    visited.add(url);
+
+    let loaded;
+    try {
+      // Parsed and counted before the slot is handed on, so the next queued
+      // fetch already sees the entries this one used up
+      loaded = await limit(async () => {
+        controller.signal.throwIfAborted();
+        if (entryCount >= maxEntries) return null;
+        const fetched = await fetchSitemap(url, controller.signal);
+        const result = parseSitemapContent(fetched.text);
+        const kept = Math.min(result.entries.length, maxEntries - entryCount);
+        entryCount += kept;
+        return { fetched, result, kept };
+      });
+    } catch (error) {
+      // A cancelled run fails as a whole rather than per sitemap
+      if (signal?.aborted) throw signal.reason;
+      warnings.push(
+        timedOut
+          ? `${url}: not loaded, ${deadlineWarning}`
+          : `${url}: ${
+              error instanceof Error ? error.message : "failed to load"
+            }`
+      );
+      return [];
+    }
+    // The budget ran out while this fetch was queued
+    if (!loaded) {
+      warnings.push(`${url}: skipped, ${entryLimitWarning}`);
+      return [];
+    }
+
+    const { fetched, result, kept } = loaded;
+    [...(fetched.warnings ?? []), ...result.warnings].forEach((warning) =>
+      warnings.push(`${url}: ${warning}`)
+    );
+    if (kept < result.entries.length) {
+      warnings.push(
+        `${url}: only the first ${kept} entries kept, ${entryLimitWarning}`
+      );
+    }
+    const entries = result.entries.slice(0, kept).map(
+      (entry): SitemapEntry => ({
+        ...entry,
+        sourceSitemap: url,
+      })
+    );
+
+    if (result.sitemaps.length === 0) return entries;
+    if (depth >= maxDepth) {
+      warnings.push(
+        `${url}: nested sitemap index not expanded, depth limit of ${maxDepth} reached`
+      );
+      return entries;
+    }
+
+    const nested = await Promise.all(
+      result.sitemaps.map((sitemap) => resolve(sitemap.url, depth + 1))
+    );
+    return entries.concat(...nested);
+  };
+
+  let resolved: SitemapEntry[][];
+  try {
+    resolved = await Promise.all(sitemapUrls.map((url) => resolve(url, 1)));
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+
+  return {
+    entries: ([] as SitemapEntry[]).concat(...resolved),
+    visited: Array.from(visited),
+    warnings,
+  };
+};
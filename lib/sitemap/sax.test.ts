@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { SitemapParseError } from "./errors";
+import { createXmlTokenizer } from "./sax";
+
+// Tokenizes `chunks` in order, collecting the text it reports
+const tokenize = (...chunks: string[]) => {
+  const texts: string[] = [];
+  const tokenizer = createXmlTokenizer({ onText: (text) => texts.push(text) });
+  chunks.forEach(tokenizer.write);
+  tokenizer.end();
+  return texts.join("");
+};
+
+const failure = (...chunks: string[]) => {
+  try {
+    tokenize(...chunks);
+  } catch (error) {
+    expect(error).toBeInstanceOf(SitemapParseError);
+    return error as SitemapParseError;
+  }
+  throw new Error("Expected the input to be rejected");
+};
+
+describe("createXmlTokenizer", () => {
+  it("decodes entity and character references", () => {
+    expect(tokenize("<loc>a &amp; b &#233;&#x1F600;</loc>")).toBe(
+      "a & b é\u{1F600}"
+    );
+  });
+
+  it.each(["&#99999999;", "&#x110000;", "&#xD800;", "&#0;", "&#xFFFE;"])(
+    "rejects the character reference %s with its position",
+    (reference) => {
+      const error = failure(`<urlset>\n  <loc>a ${reference}</loc>\n</urlset>`);
+
+      expect(error.code).toBe("INVALID_CHARACTER");
+      expect(error.message).toBe(
+        `Invalid XML format: ${reference} does not refer to a valid XML character`
+      );
+      expect([error.line, error.column]).toEqual([2, 10]);
+    }
+  );
+
+  it("locates invalid references in attribute values", () => {
+    const error = failure('<urlset>\n<link href="a&#1114112;"/></urlset>');
+
+    expect([error.line, error.column]).toEqual([2, 14]);
+  });
+
+  it("keeps counting positions across chunks", () => {
+    const error = failure("<urlset>\n<url>\n", "<loc>x</loc>\n</urlset>");
+
+    expect(error.code).toBe("MISMATCHED_TAG");
+    expect([error.line, error.column]).toEqual([4, 1]);
+  });
+});
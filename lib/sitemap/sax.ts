@@ -0,0 +1,316 @@
+import { SitemapParseError, type SitemapParseErrorCode } from "./errors";
+
+export interface XmlTag {
+  // Qualified name as written, e.g. "image:loc"
+  name: string;
+  localName: string;
+  namespaceURI: string | null;
+  attributes: Record<string, string>;
+  selfClosing: boolean;
+}
+
+export interface XmlTokenHandlers {
+  onOpenTag?: (tag: XmlTag) => void;
+  onCloseTag?: (tag: XmlTag) => void;
+  onText?: (text: string) => void;
+}
+
+export interface XmlTokenizer {
+  write: (chunk: string) => void;
+  // Flushes buffered input and checks that every element was closed
+  end: () => void;
+}
+
+// Text without any markup is buffered until the next "<"; past this size the
+// input cannot be a sitemap and buffering it would defeat bounded memory
+const MAX_PENDING_CHARS = 1024 * 1024;
+
+const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+// The Char production of XML 1.0: no NUL, C0 controls other than tab and
+// line breaks, surrogates, U+FFFE or U+FFFF, and nothing past U+10FFFF
+const isXmlChar = (codePoint: number) =>
+  codePoint === 0x9 ||
+  codePoint === 0xa ||
+  codePoint === 0xd ||
+  (codePoint >= 0x20 && codePoint <= 0xd7ff) ||
+  (codePoint >= 0xe000 && codePoint <= 0xfffd) ||
+  (codePoint >= 0x10000 && codePoint <= 0x10ffff);
+
+// Decodes entity and character references; a reference to something that is
+// not an XML character is handed to `invalid` with its index in `text`
+const decodeEntities = (
+  text: string,
+  invalid: (index: number, reference: string) => never
+) =>
+  text.replace(
+    /&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi,
+    (match, entity: string, index: number) => {
+      if (entity[0] !== "#") return ENTITIES[entity] ?? match;
+      const codePoint =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      if (!isXmlChar(codePoint)) return invalid(index, match);
+      return String.fromCodePoint(codePoint);
+    }
+  );
+
+const ATTRIBUTE_PATTERN = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Index of the ">" closing the tag that starts at `start`, skipping any ">"
+// inside quoted attribute values, or -1 when the tag is not complete yet
+const findTagEnd = (buffer: string, start: number) => {
+  let quote = "";
+  for (let index = start + 1; index < buffer.length; index++) {
+    const char = buffer[index];
+    if (quote) {
+      if (char === quote) quote = "";
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return index;
+    }
+  }
+  return -1;
+};
+
+/**
+ * An incremental, SAX-style XML tokenizer. Input can be written in arbitrary
+ * chunks; tags, text (with entities and CDATA decoded) and namespace-resolved
+ * names are reported through the handlers as soon as they are complete.
+ * Comments, processing instructions and the doctype are skipped.
+ */
+export const createXmlTokenizer = ({
+  onOpenTag,
+  onCloseTag,
+  onText,
+}: XmlTokenHandlers): XmlTokenizer => {
+  let buffer = "";
+  // Line and column of the start of `buffer` in the whole input
+  let line = 1;
+  let column = 1;
+  let sawRoot = false;
+  const openTags: XmlTag[] = [];
+  const scopes: Record<string, string>[] = [{ xml: XML_NAMESPACE }];
+
+  // Line and column of `buffer[index]` in the whole input
+  const locate = (index: number) => {
+    let lineAt = line;
+    let lineStart = -1;
+    for (
+      let newline = buffer.indexOf("\n");
+      newline !== -1 && newline < index;
+      newline = buffer.indexOf("\n", newline + 1)
+    ) {
+      lineAt++;
+      lineStart = newline;
+    }
+    return {
+      line: lineAt,
+      column: lineStart === -1 ? column + index : index - lineStart,
+    };
+  };
+
+  // Errors found at `buffer[index]` say where, like the DOM parser's do
+  const invalidXml = (
+    code: SitemapParseErrorCode,
+    detail: string,
+    index?: number
+  ) =>
+    new SitemapParseError(
+      code,
+      `Invalid XML format: ${detail}`,
+      index === undefined ? {} : locate(index)
+    );
+
+  const decode = (text: string, offset: number) =>
+    decodeEntities(text, (index, reference) => {
+      throw invalidXml(
+        "INVALID_CHARACTER",
+        `${reference} does not refer to a valid XML character`,
+        offset + index
+      );
+    });
+
+  const resolvePrefix = (prefix: string) => {
+    for (let index = scopes.length - 1; index >= 0; index--) {
+      if (prefix in scopes[index]) return scopes[index][prefix] || null;
+    }
+    return null;
+  };
+
+  // `offset` is the index of `source` in the buffer
+  const openTag = (source: string, offset: number) => {
+    const selfClosing = source.endsWith("/");
+    const body = selfClosing ? source.slice(0, -1) : source;
+    const name = body.match(/^[^\s/]+/)?.[0];
+    if (!name) {
+      throw invalidXml("MALFORMED_XML", `<${source}> has no name`, offset);
+    }
+
+    const attributes: Record<string, string> = {};
+    const scope: Record<string, string> = {};
+    for (const match of Array.from(
+      body.slice(name.length).matchAll(ATTRIBUTE_PATTERN)
+    )) {
+      const [raw, key, double, single] = match;
+      const quoted = double ?? single;
+      // The value sits just before the closing quote that ends the match
+      const matchEnd = offset + name.length + (match.index ?? 0) + raw.length;
+      const value = decode(quoted, matchEnd - 1 - quoted.length);
+      attributes[key] = value;
+      if (key === "xmlns") scope[""] = value;
+      if (key.startsWith("xmlns:")) scope[key.slice(6)] = value;
+    }
+    scopes.push(scope);
+
+    const separator = name.indexOf(":");
+    const tag: XmlTag = {
+      name,
+      localName: separator === -1 ? name : name.slice(separator + 1),
+      namespaceURI: resolvePrefix(
+        separator === -1 ? "" : name.slice(0, separator)
+      ),
+      attributes,
+      selfClosing,
+    };
+
+    sawRoot = true;
+    onOpenTag?.(tag);
+    if (selfClosing) {
+      scopes.pop();
+      onCloseTag?.(tag);
+    } else {
+      openTags.push(tag);
+    }
+  };
+
+  const closeTag = (name: string, offset: number) => {
+    const tag = openTags.pop();
+    if (!tag || tag.name !== name) {
+      throw invalidXml(
+        "MISMATCHED_TAG",
+        tag
+          ? `</${name}> does not close <${tag.name}>`
+          : `</${name}> has no opening tag`,
+        offset
+      );
+    }
+    scopes.pop();
+    onCloseTag?.(tag);
+  };
+
+  // `offset` is the index of `text` in the buffer
+  const emitText = (text: string, offset: number) => {
+    if (!text) return;
+    // Only whitespace may appear outside the root element
+    if (openTags.length === 0) {
+      if (text.trim()) {
+        throw invalidXml(
+          "MALFORMED_XML",
+          "text outside the root element",
+          offset + text.search(/\S/)
+        );
+      }
+      return;
+    }
+    onText?.(decode(text, offset));
+  };
+
+  // Consumes every complete token in the buffer; with `final` set, whatever
+  // is left over is an error
+  const drain = (final: boolean) => {
+    let position = 0;
+
+    for (;;) {
+      const start = buffer.indexOf("<", position);
+      if (start === -1) {
+        if (final) {
+          emitText(buffer.slice(position), position);
+          position = buffer.length;
+        } else if (buffer.length - position > MAX_PENDING_CHARS) {
+          throw invalidXml("MALFORMED_XML", "no markup found");
+        }
+        break;
+      }
+
+      emitText(buffer.slice(position, start), position);
+      position = start;
+
+      let end: number;
+      if (buffer.startsWith("<!--", start)) {
+        end = buffer.indexOf("-->", start + 4);
+        if (end === -1) break;
+        position = end + 3;
+      } else if (buffer.startsWith("<![CDATA[", start)) {
+        end = buffer.indexOf("]]>", start + 9);
+        if (end === -1) break;
+        if (openTags.length === 0) {
+          throw invalidXml(
+            "MALFORMED_XML",
+            "CDATA outside the root element",
+            start
+          );
+        }
+        onText?.(buffer.slice(start + 9, end));
+        position = end + 3;
+      } else if (buffer.startsWith("<?", start)) {
+        end = buffer.indexOf("?>", start + 2);
+        if (end === -1) break;
+        position = end + 2;
+      } else if (buffer.startsWith("<!", start)) {
+        // Wait until a "<!--" or "<![CDATA[" prefix could be ruled out
+        if (!final && buffer.length - start < 9) break;
+        const subset = buffer.indexOf("[", start);
+        const close = buffer.indexOf(">", start);
+        end =
+          subset !== -1 && subset < close
+            ? buffer.indexOf("]>", subset)
+            : close;
+        if (end === -1) break;
+        position = end + (buffer[end] === "]" ? 2 : 1);
+      } else {
+        end = findTagEnd(buffer, start);
+        if (end === -1) break;
+        const raw = buffer.slice(start + 1, end);
+        const source = raw.trim();
+        if (source.startsWith("/")) {
+          closeTag(source.slice(1).trim(), start);
+        } else {
+          openTag(source, start + 1 + raw.length - raw.trimStart().length);
+        }
+        position = end + 1;
+      }
+    }
+
+    ({ line, column } = locate(position));
+    buffer = buffer.slice(position);
+    if (!final) return;
+    if (!sawRoot) throw invalidXml("MISSING_ROOT", "missing root element");
+    if (buffer || openTags.length > 0) {
+      throw invalidXml(
+        "UNCLOSED_TAG",
+        openTags.length > 0
+          ? `unclosed tag(s): ${openTags.map((tag) => tag.name).join(", ")}`
+          : "unexpected end of input"
+      );
+    }
+  };
+
+  return {
+    write: (chunk) => {
+      buffer += chunk;
+      drain(false);
+    },
+    end: () => drain(true),
+  };
+};
@@ -0,0 +1,194 @@
+import { DOMParser } from "@xmldom/xmldom";
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { SITEMAP_NAMESPACE } from "./namespaces";
+import {
+  SCHEMAS,
+  type ElementDecl,
+  type Particle,
+  type SimpleType,
+} from "./schemas";
+
+const XSD_NAMESPACE = "http://www.w3.org/2001/XMLSchema";
+
+// The sitemaps.org sitemap.xsd, as shipped by the `sitemap` package. Google's
+// extension schemas and siteindex.xsd are not published on npm, so their
+// transcriptions are not checked here.
+const sitemapXsd = () => {
+  const packageJson = createRequire(import.meta.url).resolve(
+    "sitemap/package.json"
+  );
+  return readFileSync(join(dirname(packageJson), "schema/sitemap.xsd"), "utf8");
+};
+
+const xsdChildren = (node: Element) =>
+  Array.from(node.childNodes).filter(
+    (child): child is Element =>
+      child.nodeType === 1 &&
+      (child as Element).namespaceURI === XSD_NAMESPACE &&
+      (child as Element).localName !== "annotation"
+  );
+
+const unsupported = (node: Element) =>
+  new Error(`<${node.nodeName}> is outside the transcribed XSD subset`);
+
+const BASES: Record<string, SimpleType["base"]> = {
+  "xsd:string": "string",
+  "xsd:anyURI": "anyURI",
+  "xsd:decimal": "decimal",
+  "xsd:integer": "integer",
+};
+
+/**
+ * Reads the part of an XSD file that ./schemas transcribes into the same
+ * declarations, throwing on any construct it does not model so a rule
+ * cannot be silently left out. Returns the declarations by element name,
+ * and the elements whose sequence is preceded by <xsd:any>, which the
+ * transcription has no way to express.
+ */
+const readXsd = (xsd: string) => {
+  const schema = new DOMParser().parseFromString(xsd, "text/xml")
+    .documentElement as unknown as Element;
+  const named = (localName: string) =>
+    new Map(
+      xsdChildren(schema)
+        .filter((node) => node.localName === localName)
+        .map((node) => [node.getAttribute("name") ?? "", node])
+    );
+  const simpleTypes = named("simpleType");
+  const complexTypes = named("complexType");
+  const elements: Record<string, ElementDecl> = {};
+  const leadingOther: string[] = [];
+
+  const readSimpleType = (node: Element): SimpleType => {
+    const [content] = xsdChildren(node);
+    if (content.localName === "union") {
+      const bases = xsdChildren(content).map((member) => {
+        const [restriction] = xsdChildren(member);
+        if (xsdChildren(restriction).length > 0) throw unsupported(restriction);
+        return restriction.getAttribute("base");
+      });
+      if (bases.join() !== "xsd:date,xsd:dateTime") throw unsupported(content);
+      return { base: "dateOrDateTime" };
+    }
+    if (content.localName !== "restriction") throw unsupported(content);
+
+    const base = BASES[content.getAttribute("base") ?? ""];
+    if (!base) throw unsupported(content);
+    const type: SimpleType = { base };
+    xsdChildren(content).forEach((facet) => {
+      const value = facet.getAttribute("value") ?? "";
+      switch (facet.localName) {
+        case "minLength":
+        case "maxLength":
+        case "minInclusive":
+        case "maxInclusive":
+          type[facet.localName] = Number(value);
+          break;
+        case "enumeration":
+          type.enumeration = [...(type.enumeration ?? []), value];
+          break;
+        default:
+          throw unsupported(facet);
+      }
+    });
+    return type;
+  };
+
+  const readComplexType = (name: string, node: Element): ElementDecl => {
+    const [sequence, ...rest] = xsdChildren(node);
+    if (sequence?.localName !== "sequence") throw unsupported(node);
+    if (rest.length > 0) throw unsupported(rest[0]);
+
+    const decl: ElementDecl = { sequence: [] };
+    const particles = xsdChildren(sequence);
+    particles.forEach((particle, index) => {
+      if (particle.localName === "any") {
+        if (particle.getAttribute("namespace") !== "##other") {
+          throw unsupported(particle);
+        }
+        if (index === particles.length - 1) {
+          decl.allowOther = true;
+        } else if (index === 0) {
+          leadingOther.push(name);
+        } else {
+          throw unsupported(particle);
+        }
+        return;
+      }
+      if (particle.localName !== "element") throw unsupported(particle);
+
+      const child = particle.getAttribute("name") ?? "";
+      const entry: Particle = { name: child };
+      const minOccurs = particle.getAttribute("minOccurs");
+      const maxOccurs = particle.getAttribute("maxOccurs");
+      if (minOccurs) entry.minOccurs = Number(minOccurs);
+      if (maxOccurs) {
+        entry.maxOccurs =
+          maxOccurs === "unbounded" ? Infinity : Number(maxOccurs);
+      }
+      decl.sequence?.push(entry);
+      readElement(child, particle);
+    });
+    return decl;
+  };
+
+  const readElement = (name: string, node: Element) => {
+    const type = node.getAttribute("type");
+    const simpleType = type ? simpleTypes.get(type) : undefined;
+    const complexType = type ? complexTypes.get(type) : undefined;
+    const [inline] = xsdChildren(node);
+
+    if (simpleType) {
+      elements[name] = { text: readSimpleType(simpleType) };
+    } else if (complexType) {
+      elements[name] = readComplexType(name, complexType);
+    } else if (!type && inline?.localName === "complexType") {
+      elements[name] = readComplexType(name, inline);
+    } else {
+      throw unsupported(node);
+    }
+  };
+
+  named("element").forEach((node, name) => readElement(name, node));
+  return { elements, leadingOther };
+};
+
+describe("SCHEMAS", () => {
+  const sitemapSchema = SCHEMAS.find(
+    (schema) => schema.namespace === SITEMAP_NAMESPACE
+  );
+
+  it("transcribes every rule of sitemap.xsd", () => {
+    const { elements } = readXsd(sitemapXsd());
+
+    expect(Object.keys(elements).sort()).toEqual([
+      "changefreq",
+      "lastmod",
+      "loc",
+      "priority",
+      "url",
+      "urlset",
+    ]);
+    Object.entries(elements).forEach(([name, decl]) => {
+      expect(sitemapSchema?.elements[name], `<${name}>`).toEqual(decl);
+    });
+  });
+
+  it("only differs from sitemap.xsd where the package's copy was modified", () => {
+    // The `sitemap` package lets extension elements precede <url> in
+    // <urlset>; the sitemaps.org file does not, and neither does SCHEMAS
+    expect(readXsd(sitemapXsd()).leadingOther).toEqual(["urlset"]);
+  });
+
+  it("names the XSD file of each schema", () => {
+    SCHEMAS.forEach((schema) => {
+      expect(schema.locations.length).toBeGreaterThan(0);
+      schema.locations.forEach((location) =>
+        expect(location).toMatch(/^https:\/\/.+\.xsd$/)
+      );
+    });
+  });
+});
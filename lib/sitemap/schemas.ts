@@ -0,0 +1,297 @@
+// The sitemaps.org schemas and the Google extension schemas, transcribed
+// from the published XSD files into the subset of XML Schema that sitemaps
+// use (sequences, occurrence bounds, restricted simple types and attributes)
+// so documents can be validated without fetching anything. The XSD files
+// themselves are not bundled: what they say beyond that subset is not
+// checked, and `locations` names the files each schema was transcribed from.
+// The <urlset> rules are tested against sitemap.xsd as shipped by the
+// `sitemap` package; the other transcriptions have no XSD file to test
+// against offline.
+
+import {
+  IMAGE_NAMESPACE,
+  NEWS_NAMESPACE,
+  SITEMAP_NAMESPACE,
+  VIDEO_NAMESPACE,
+  XHTML_NAMESPACE,
+} from "./namespaces";
+
+export interface SimpleType {
+  // "dateOrDateTime" is the union of xsd:date and xsd:dateTime
+  base: "string" | "anyURI" | "decimal" | "integer" | "dateOrDateTime";
+  minLength?: number;
+  maxLength?: number;
+  minInclusive?: number;
+  maxInclusive?: number;
+  enumeration?: string[];
+  pattern?: RegExp;
+}
+
+export interface AttributeDecl {
+  type: SimpleType;
+  required?: boolean;
+}
+
+// An <xsd:element ref> inside a sequence; occurrences default to exactly one
+export interface Particle {
+  name: string;
+  minOccurs?: number;
+  maxOccurs?: number;
+}
+
+export interface ElementDecl {
+  // Child elements, in order; an empty sequence means an empty element
+  sequence?: Particle[];
+  // Whether <xsd:any namespace="##other"> elements may follow the sequence
+  allowOther?: boolean;
+  // Type of the text content of simple-content elements
+  text?: SimpleType;
+  attributes?: Record<string, AttributeDecl>;
+  // Whether undeclared attributes are accepted (<xsd:anyAttribute>)
+  anyAttribute?: boolean;
+}
+
+export interface SchemaDecl {
+  namespace: string;
+  // The published XSD files this declaration was transcribed from
+  locations: string[];
+  // Elements that may appear as the document root or as extension elements
+  globals: string[];
+  elements: Record<string, ElementDecl>;
+}
+
+const string: SimpleType = { base: "string" };
+const anyURI: SimpleType = { base: "anyURI" };
+const dateOrDateTime: SimpleType = { base: "dateOrDateTime" };
+const yesNo: SimpleType = { base: "string", enumeration: ["yes", "no"] };
+const allowDeny: SimpleType = {
+  base: "string",
+  enumeration: ["allow", "deny"],
+};
+
+const tLoc: SimpleType = { base: "anyURI", minLength: 12, maxLength: 2048 };
+
+const sitemapSchema: SchemaDecl = {
+  namespace: SITEMAP_NAMESPACE,
+  locations: [
+    "https://www.sitemaps.org/schemas/sitemap/0.9/sitemap.xsd",
+    "https://www.sitemaps.org/schemas/sitemap/0.9/siteindex.xsd",
+  ],
+  globals: ["urlset", "sitemapindex"],
+  elements: {
+    urlset: { sequence: [{ name: "url", maxOccurs: Infinity }] },
+    url: {
+      sequence: [
+        { name: "loc" },
+        { name: "lastmod", minOccurs: 0 },
+        { name: "changefreq", minOccurs: 0 },
+        { name: "priority", minOccurs: 0 },
+      ],
+      allowOther: true,
+    },
+    sitemapindex: { sequence: [{ name: "sitemap", maxOccurs: Infinity }] },
+    sitemap: {
+      sequence: [{ name: "loc" }, { name: "lastmod", minOccurs: 0 }],
+      allowOther: true,
+    },
+    loc: { text: tLoc },
+    lastmod: { text: dateOrDateTime },
+    changefreq: {
+      text: {
+        base: "string",
+        enumeration: [
+          "always",
+          "hourly",
+          "daily",
+          "weekly",
+          "monthly",
+          "yearly",
+          "never",
+        ],
+      },
+    },
+    priority: {
+      text: { base: "decimal", minInclusive: 0, maxInclusive: 1 },
+    },
+  },
+};
+
+const imageSchema: SchemaDecl = {
+  namespace: IMAGE_NAMESPACE,
+  locations: [
+    "https://www.google.com/schemas/sitemap-image/1.1/sitemap-image.xsd",
+  ],
+  globals: ["image"],
+  elements: {
+    image: {
+      sequence: [
+        { name: "loc" },
+        { name: "caption", minOccurs: 0 },
+        { name: "geo_location", minOccurs: 0 },
+        { name: "title", minOccurs: 0 },
+        { name: "license", minOccurs: 0 },
+      ],
+      allowOther: true,
+    },
+    loc: { text: anyURI },
+    caption: { text: string },
+    geo_location: { text: string },
+    title: { text: string },
+    license: { text: anyURI },
+  },
+};
+
+const videoSchema: SchemaDecl = {
+  namespace: VIDEO_NAMESPACE,
+  locations: [
+    "https://www.google.com/schemas/sitemap-video/1.1/sitemap-video.xsd",
+  ],
+  globals: ["video"],
+  elements: {
+    video: {
+      sequence: [
+        { name: "thumbnail_loc" },
+        { name: "title" },
+        { name: "description" },
+        { name: "content_loc", minOccurs: 0 },
+        { name: "player_loc", minOccurs: 0 },
+        { name: "duration", minOccurs: 0 },
+        { name: "expiration_date", minOccurs: 0 },
+        { name: "rating", minOccurs: 0 },
+        { name: "content_segment_loc", minOccurs: 0, maxOccurs: Infinity },
+        { name: "view_count", minOccurs: 0 },
+        { name: "publication_date", minOccurs: 0 },
+        { name: "tag", minOccurs: 0, maxOccurs: 32 },
+        { name: "category", minOccurs: 0 },
+        { name: "family_friendly", minOccurs: 0 },
+        { name: "restriction", minOccurs: 0 },
+        { name: "gallery_loc", minOccurs: 0 },
+        { name: "price", minOccurs: 0, maxOccurs: Infinity },
+        { name: "requires_subscription", minOccurs: 0 },
+        { name: "uploader", minOccurs: 0 },
+        { name: "platform", minOccurs: 0 },
+        { name: "live", minOccurs: 0 },
+      ],
+      allowOther: true,
+    },
+    thumbnail_loc: { text: anyURI },
+    title: { text: string },
+    description: { text: { base: "string", maxLength: 2048 } },
+    content_loc: { text: anyURI },
+    player_loc: {
+      text: anyURI,
+      attributes: {
+        allow_embed: { type: yesNo },
+        autoplay: { type: string },
+      },
+    },
+    duration: {
+      text: { base: "integer", minInclusive: 0, maxInclusive: 28800 },
+    },
+    expiration_date: { text: dateOrDateTime },
+    rating: {
+      text: { base: "decimal", minInclusive: 0, maxInclusive: 5 },
+    },
+    content_segment_loc: {
+      text: anyURI,
+      attributes: { duration: { type: { base: "integer", minInclusive: 0 } } },
+    },
+    view_count: { text: { base: "integer", minInclusive: 0 } },
+    publication_date: { text: dateOrDateTime },
+    tag: { text: string },
+    category: { text: { base: "string", maxLength: 256 } },
+    family_friendly: { text: yesNo },
+    restriction: {
+      text: { base: "string", pattern: /^(?:[A-Z]{2}(?:\s+[A-Z]{2})*)?$/ },
+      attributes: { relationship: { type: allowDeny, required: true } },
+    },
+    gallery_loc: {
+      text: anyURI,
+      attributes: { title: { type: string } },
+    },
+    price: {
+      text: { base: "decimal", minInclusive: 0 },
+      attributes: {
+        currency: {
+          type: { base: "string", pattern: /^[A-Z]{3}$/ },
+          required: true,
+        },
+        type: { type: { base: "string", enumeration: ["rent", "own"] } },
+        resolution: { type: { base: "string", enumeration: ["HD", "SD"] } },
+      },
+    },
+    requires_subscription: { text: yesNo },
+    uploader: {
+      text: string,
+      attributes: { info: { type: anyURI } },
+    },
+    platform: {
+      text: {
+        base: "string",
+        pattern: /^(?:(?:web|mobile|tv)(?:\s+(?:web|mobile|tv))*)?$/,
+      },
+      attributes: { relationship: { type: allowDeny, required: true } },
+    },
+    live: { text: yesNo },
+  },
+};
+
+const newsSchema: SchemaDecl = {
+  namespace: NEWS_NAMESPACE,
+  locations: [
+    "https://www.google.com/schemas/sitemap-news/0.9/sitemap-news.xsd",
+  ],
+  globals: ["news"],
+  elements: {
+    news: {
+      sequence: [
+        { name: "publication" },
+        { name: "access", minOccurs: 0 },
+        { name: "genres", minOccurs: 0 },
+        { name: "publication_date" },
+        { name: "title" },
+        { name: "keywords", minOccurs: 0 },
+        { name: "stock_tickers", minOccurs: 0 },
+      ],
+    },
+    publication: { sequence: [{ name: "name" }, { name: "language" }] },
+    name: { text: string },
+    language: {
+      text: { base: "string", pattern: /^(?:[a-z]{2,3}|zh-cn|zh-tw)$/ },
+    },
+    access: {
+      text: { base: "string", enumeration: ["Subscription", "Registration"] },
+    },
+    genres: { text: string },
+    publication_date: { text: dateOrDateTime },
+    title: { text: string },
+    keywords: { text: string },
+    stock_tickers: { text: string },
+  },
+};
+
+// Only the <xhtml:link> element that sitemaps use for hreflang alternates
+const xhtmlSchema: SchemaDecl = {
+  namespace: XHTML_NAMESPACE,
+  locations: ["https://www.w3.org/2002/08/xhtml/xhtml1-strict.xsd"],
+  globals: ["link"],
+  elements: {
+    link: {
+      sequence: [],
+      attributes: {
+        rel: { type: string, required: true },
+        hreflang: { type: string },
+        href: { type: anyURI, required: true },
+      },
+      anyAttribute: true,
+    },
+  },
+};
+
+export const SCHEMAS: SchemaDecl[] = [
+  sitemapSchema,
+  imageSchema,
+  videoSchema,
+  newsSchema,
+  xhtmlSchema,
+];
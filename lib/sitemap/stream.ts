@@ -0,0 +1,314 @@
+import { DOMImplementation } from "@xmldom/xmldom";
+import {
+  addToCsvSummary,
+  createCsvSummary,
+  createSitemapCsvWriter,
+  type CsvOptions,
+} from "./csv";
+import { parseAtomEntry, parseRssItem } from "./feed";
+import { SNIFF_BYTES, sniffEncoding } from "./encoding";
+import { openSitemapStream } from "./gzip";
+import {
+  ATOM_NAMESPACE,
+  matchesNamespace,
+  SITEMAP_NAMESPACE,
+} from "./namespaces";
+import {
+  formatOfRoot,
+  parseSitemapElement,
+  parseUrlElement,
+  sitemapIndexRow,
+} from "./parse";
+import { createXmlTokenizer } from "./sax";
+import { parseTextLine } from "./text";
+import type { SitemapEntry, SitemapFormat } from "./types";
+
+export interface StreamParseOptions {
+  onEntry: (entry: SitemapEntry) => void;
+  onWarning?: (message: string) => void;
+  // Called with the number of file bytes read so far
+  onProgress?: (bytesRead: number) => void;
+  // Stops reading and rejects with the signal's reason
+  signal?: AbortSignal;
+}
+
+export interface StreamCsvOptions extends CsvOptions {
+  onWarning?: (message: string) => void;
+  // Called with the share of the conversion done, from 0 to 1
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface StreamedCsv {
+  csv: Blob;
+  count: number;
+}
+
+// The namespace and local name of the element wrapping a single record in
+// each XML format
+const RECORD_TAGS: Partial<
+  Record<SitemapFormat, [namespace: string | null, localName: string]>
+> = {
+  urlset: [SITEMAP_NAMESPACE, "url"],
+  sitemapindex: [SITEMAP_NAMESPACE, "sitemap"],
+  rss: [null, "item"],
+  atom: [ATOM_NAMESPACE, "entry"],
+};
+
+// A text sitemap line longer than this is not a URL; stop buffering it
+const MAX_LINE_CHARS = 1024 * 1024;
+
+// Number of CSV lines joined into each Blob part
+const CSV_BATCH_LINES = 1000;
+
+const toEntry = (
+  format: SitemapFormat,
+  element: Element,
+  warnings: string[]
+): SitemapEntry | null => {
+  switch (format) {
+    case "urlset":
+      return parseUrlElement(element, warnings);
+    case "sitemapindex": {
+      const sitemap = parseSitemapElement(element);
+      return sitemap && sitemapIndexRow(sitemap);
+    }
+    case "rss":
+      return parseRssItem(element);
+    case "atom":
+      return parseAtomEntry(element);
+    default:
+      return null;
+  }
+};
+
+interface ContentSink {
+  write: (text: string) => void;
+  end: () => SitemapFormat;
+}
+
+const createTextSink = ({
+  onEntry,
+  onWarning,
+}: StreamParseOptions): ContentSink => {
+  let pending = "";
+  let lineNumber = 0;
+
+  const parseLine = (line: string) => {
+    lineNumber++;
+    const entry = parseTextLine(line, lineNumber, (message) =>
+      onWarning?.(message)
+    );
+    if (entry) onEntry(entry);
+  };
+
+  return {
+    write: (text) => {
+      const lines = (pending + text).split(/\r?\n/);
+      pending = lines.pop() ?? "";
+      if (pending.length > MAX_LINE_CHARS) {
+        throw new Error("Invalid text sitemap format");
+      }
+      lines.forEach(parseLine);
+    },
+    end: () => {
+      parseLine(pending);
+      return "text";
+    },
+  };
+};
+
+// Rebuilds each record as a small detached DOM element so the regular
+// element parsers can read it, then lets it go once it has been converted
+const createXmlSink = ({
+  onEntry,
+  onWarning,
+}: StreamParseOptions): ContentSink => {
+  const document = new DOMImplementation().createDocument(
+    null,
+    "records",
+    null
+  );
+  let format: SitemapFormat | undefined;
+  let recordTag: [namespace: string | null, localName: string] | undefined;
+  let recordIndex = 0;
+  const open: ReturnType<typeof document.createElementNS>[] = [];
+
+  const tokenizer = createXmlTokenizer({
+    onOpenTag: (tag) => {
+      if (format === undefined) {
+        format = formatOfRoot(tag.localName);
+        recordTag = RECORD_TAGS[format];
+        return;
+      }
+      if (
+        open.length === 0 &&
+        !(
+          recordTag &&
+          tag.localName === recordTag[1] &&
+          matchesNamespace(tag.namespaceURI, recordTag[0])
+        )
+      ) {
+        return;
+      }
+
+      const element = document.createElementNS(tag.namespaceURI, tag.name);
+      Object.entries(tag.attributes).forEach(([name, value]) =>
+        element.setAttribute(name, value)
+      );
+      open[open.length - 1]?.appendChild(element);
+      open.push(element);
+    },
+    onText: (text) => {
+      open[open.length - 1]?.appendChild(document.createTextNode(text));
+    },
+    onCloseTag: () => {
+      const element = open.pop();
+      if (!element || open.length > 0 || !format) return;
+
+      recordIndex++;
+      const warnings: string[] = [];
+      const entry = toEntry(format, element as unknown as Element, warnings);
+      warnings.forEach((message) => onWarning?.(message));
+      if (entry) {
+        onEntry(entry);
+      } else {
+        const missing =
+          format === "rss" || format === "atom" ? "a link" : "a <loc>";
+        onWarning?.(
+          `Skipped <${recordTag?.[1]}> #${recordIndex} without ${missing}`
+        );
+      }
+    },
+  });
+
+  return {
+    write: tokenizer.write,
+    end: () => {
+      tokenizer.end();
+      return format ?? "unknown";
+    },
+  };
+};
+
+/**
+ * Parses an uploaded sitemap (XML, text, RSS/Atom, optionally gzipped)
+ * without holding it in memory. The file is decoded and tokenized chunk by
+ * chunk and only the record currently being read is ever materialised; each
+ * entry is handed to `onEntry` as soon as its element closes. Resolves with
+ * the detected format and throws on malformed input.
+ */
+export const parseSitemapStream = async (
+  file: Blob,
+  options: StreamParseOptions
+): Promise<SitemapFormat> => {
+  options.signal?.throwIfAborted();
+  const reader = (
+    await openSitemapStream(file, options.onProgress)
+  ).getReader();
+  // Bytes are held back until there are enough to sniff the encoding from.
+  // Unlike readSitemapFile, the bytes are not checked against the sniffed
+  // encoding, which would take the whole file
+  let decoder: TextDecoder | undefined;
+  let pending = new Uint8Array(0);
+  let head = "";
+  let sink: ContentSink | undefined;
+
+  // The first non-blank character tells XML ("<") from a text sitemap
+  const write = (text: string) => {
+    if (sink) return sink.write(text);
+    head += text;
+    const first = head.trimStart()[0];
+    if (!first) return;
+    sink = first === "<" ? createXmlSink(options) : createTextSink(options);
+    sink.write(head);
+    head = "";
+  };
+
+  const createDecoder = (head: Uint8Array) => {
+    const { encoding, warning } = sniffEncoding(head);
+    if (warning) options.onWarning?.(warning);
+    return new TextDecoder(encoding);
+  };
+
+  const decode = (bytes: Uint8Array) => {
+    if (decoder) return write(decoder.decode(bytes, { stream: true }));
+    const joined = new Uint8Array(pending.length + bytes.length);
+    joined.set(pending);
+    joined.set(bytes, pending.length);
+    pending = joined;
+    if (pending.length < SNIFF_BYTES) return;
+    decoder = createDecoder(pending);
+    write(decoder.decode(pending, { stream: true }));
+    pending = new Uint8Array(0);
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      options.signal?.throwIfAborted();
+      decode(value);
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw options.signal?.aborted ? options.signal.reason : error;
+  }
+  if (decoder) {
+    write(decoder.decode());
+  } else {
+    // The whole file was shorter than the sniffing window
+    write(createDecoder(pending).decode(pending));
+  }
+
+  if (!sink) throw new Error("The sitemap file is empty");
+  return sink.end();
+};
+
+/**
+ * Converts a large sitemap file to CSV in two streaming passes: the first
+ * works out which optional columns are needed, the second writes the rows.
+ * Rows are flushed to Blob parts in batches, so memory use stays flat no
+ * matter how many URLs the sitemap holds. Warnings are reported to
+ * `onWarning` by the first pass only, so each is reported once.
+ */
+export const streamSitemapToCsv = async (
+  file: Blob,
+  { onWarning, onProgress, signal, ...csvOptions }: StreamCsvOptions = {}
+): Promise<StreamedCsv> => {
+  const summary = createCsvSummary();
+  let count = 0;
+  await parseSitemapStream(file, {
+    onEntry: (entry) => {
+      addToCsvSummary(summary, entry);
+      count++;
+    },
+    onWarning,
+    onProgress: (bytesRead) => onProgress?.(bytesRead / file.size / 2),
+    signal,
+  });
+
+  const writer = createSitemapCsvWriter(summary, csvOptions);
+  const parts: Blob[] = [];
+  let batch = [writer.header];
+  const flush = () => {
+    const text = batch.join("\n");
+    parts.push(new Blob([parts.length > 0 ? `\n${text}` : text]));
+    batch = [];
+  };
+
+  await parseSitemapStream(file, {
+    onEntry: (entry) => {
+      batch.push(...writer.rows(entry));
+      if (batch.length >= CSV_BATCH_LINES) flush();
+    },
+    onProgress: (bytesRead) => onProgress?.(0.5 + bytesRead / file.size / 2),
+    signal,
+  });
+  if (batch.length > 0) flush();
+
+  return {
+    csv: new Blob(parts, { type: "text/csv;charset=utf-8;" }),
+    count,
+  };
+};
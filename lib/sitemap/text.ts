@@ -0,0 +1,92 @@
+import { createProgressReporter } from "./progress";
+import type { ParseOptions, ParseResult, SitemapEntry } from "./types";
+import { validateTextSitemap } from "./validate";
+
+// The sitemaps.org limit for a single text sitemap
+export const MAX_TEXT_SITEMAP_URLS = 50_000;
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const preview = (line: string) =>
+  line.length > 80 ? `${line.slice(0, 77)}...` : line;
+
+const toLines = (input: string) => input.replace(/^\uFEFF/, "").split(/\r?\n/);
+
+/**
+ * Whether the input is a text sitemap: no markup at all and at least one line
+ * holding an http(s) URL.
+ */
+export const isTextSitemap = (input: string) =>
+  !input.includes("<") && toLines(input).some((line) => isHttpUrl(line.trim()));
+
+/**
+ * Parses a single line of a text sitemap. Blank lines yield nothing; lines
+ * that are not a valid http(s) URL are reported through `onWarning`.
+ */
+export const parseTextLine = (
+  rawLine: string,
+  lineNumber: number,
+  onWarning: (message: string) => void
+): SitemapEntry | null => {
+  const line = rawLine.trim();
+  if (!line) return null;
+
+  if (/\s/.test(line) || !isHttpUrl(line)) {
+    onWarning(
+      `Skipped line ${lineNumber}: "${preview(
+        line
+      )}" is not an absolute http(s) URL`
+    );
+    return null;
+  }
+
+  return {
+    url: line,
+    lastModified: "",
+    changeFrequency: "",
+    priority: "",
+  };
+};
+
+/**
+ * Parses a text sitemap with one absolute URL per line. Blank lines are
+ * ignored; any other line that is not a valid http(s) URL is skipped and
+ * reported as a warning with its line number.
+ */
+export const parseTextSitemap = (
+  input: string,
+  { onProgress, validate }: ParseOptions = {}
+): ParseResult => {
+  const entries: SitemapEntry[] = [];
+  const warnings: string[] = [];
+
+  const lines = toLines(input);
+  const reportProgress = createProgressReporter(lines.length, onProgress);
+  lines.forEach((rawLine, index) => {
+    reportProgress(index + 1);
+    const entry = parseTextLine(rawLine, index + 1, (message) =>
+      warnings.push(message)
+    );
+    if (entry) entries.push(entry);
+  });
+
+  if (entries.length > MAX_TEXT_SITEMAP_URLS) {
+    warnings.push(
+      `Text sitemaps may list at most ${MAX_TEXT_SITEMAP_URLS} URLs, this one lists ${entries.length}`
+    );
+  }
+
+  return {
+    format: "text",
+    entries,
+    sitemaps: [],
+    warnings,
+    findings: validate ? validateTextSitemap(entries, input) : undefined,
+  };
+};
@@ -0,0 +1,175 @@
+// A single <xhtml:link rel="alternate"> hreflang annotation
+export interface SitemapAlternate {
+  hreflang: string;
+  href: string;
+}
+
+// A single <image:image> block from the Google image sitemap extension
+export interface SitemapImage {
+  loc: string;
+  caption?: string;
+  title?: string;
+  geoLocation?: string;
+  license?: string;
+}
+
+// A single <video:video> block from the Google video sitemap extension
+export interface SitemapVideo {
+  thumbnailLoc: string;
+  title: string;
+  description: string;
+  contentLoc?: string;
+  playerLoc?: string;
+  duration?: string;
+  expirationDate?: string;
+  rating?: string;
+  viewCount?: string;
+  publicationDate?: string;
+  familyFriendly?: string;
+  restriction?: string;
+  restrictionRelationship?: string;
+  platform?: string;
+  platformRelationship?: string;
+  requiresSubscription?: string;
+  uploader?: string;
+  uploaderInfo?: string;
+  live?: string;
+  tags?: string[];
+}
+
+// The <news:news> block from the Google News sitemap extension
+export interface SitemapNews {
+  publicationName: string;
+  publicationLanguage: string;
+  publicationDate: string;
+  title: string;
+  keywords?: string[];
+  genres?: string;
+  stockTickers?: string;
+}
+
+// Feed-specific fields of an RSS <item> or Atom <entry>
+export interface SitemapFeedItem {
+  title?: string;
+  author?: string;
+  categories?: string[];
+}
+
+export interface SitemapEntry {
+  url: string;
+  lastModified?: string;
+  changeFrequency?: string;
+  priority?: string;
+  alternates?: SitemapAlternate[];
+  images?: SitemapImage[];
+  videos?: SitemapVideo[];
+  news?: SitemapNews;
+  feed?: SitemapFeedItem;
+  // The child sitemap the entry came from when a sitemap index was expanded
+  sourceSitemap?: string;
+}
+
+export interface SitemapIndexEntry {
+  url: string;
+  lastModified?: string;
+}
+
+export type SitemapFormat =
+  | "urlset"
+  | "sitemapindex"
+  | "text"
+  | "rss"
+  | "atom"
+  | "unknown";
+
+export interface ParseOptions {
+  // Called with (processed, total) as entries are extracted
+  onProgress?: (processed: number, total: number) => void;
+  // Also check the document against the sitemaps.org protocol
+  validate?: boolean;
+  // Repair malformed XML instead of failing, reporting each repair as a
+  // warning
+  recover?: boolean;
+  // The content was pasted from a browser, so run every paste normaliser of
+  // ./clean over it; other content gets only FILE_NORMALIZERS
+  pasted?: boolean;
+}
+
+export interface ParseResult {
+  format: SitemapFormat;
+  // <url> entries of a regular sitemap, or the items of a feed
+  entries: SitemapEntry[];
+  // Child sitemaps listed by a sitemap index
+  sitemaps: SitemapIndexEntry[];
+  // Non-fatal problems found while parsing
+  warnings: string[];
+  // What was stripped from the XML before parsing it (see ./clean)
+  cleaned?: string[];
+  // Protocol violations, when parsed with `validate`
+  findings?: ProtocolFinding[];
+  // XSD violations of XML sitemaps, when parsed with `validate`
+  schemaErrors?: SchemaError[];
+}
+
+export type FindingSeverity = "error" | "warning" | "info";
+
+// The rule an hreflang audit finding was raised by
+export type HreflangCheck =
+  | "return-link"
+  | "self-reference"
+  | "invalid-code"
+  | "x-default"
+  | "conflicting-target"
+  | "missing-from-sitemap";
+
+export interface HreflangFinding {
+  severity: FindingSeverity;
+  check: HreflangCheck;
+  // The sitemap entry whose alternates raised the finding
+  url: string;
+  hreflang?: string;
+  href?: string;
+  message: string;
+}
+
+// The sitemaps.org protocol rule a validation finding was raised by
+export type ProtocolCheck =
+  | "root-element"
+  | "namespace"
+  | "mixed-elements"
+  | "url-limit"
+  | "size-limit"
+  | "loc-missing"
+  | "loc-length"
+  | "loc-absolute"
+  | "loc-escaping"
+  | "lastmod-format"
+  | "priority-range"
+  | "changefreq-value";
+
+export interface ProtocolFinding {
+  severity: FindingSeverity;
+  check: ProtocolCheck;
+  // 1-based position of the <url> or <sitemap> element (or text line) the
+  // finding is about; unset for document-wide findings
+  row?: number;
+  url?: string;
+  message: string;
+}
+
+// Lines of a document around a position of interest
+export interface SourceExcerpt {
+  // 1-based line the excerpt is centred on
+  line: number;
+  // Offset of the position within that line's excerpt text
+  caret: number;
+  lines: { number: number; text: string }[];
+}
+
+// A violation of the built-in sitemap schemas, located in the cleaned XML
+export interface SchemaError {
+  line: number;
+  column: number;
+  message: string;
+  excerpt: SourceExcerpt;
+}
@@ -0,0 +1,254 @@
+import { textOf } from "./dom";
+import { matchesNamespace, SITEMAP_NAMESPACE } from "./namespaces";
+import type { ProtocolFinding, SitemapEntry } from "./types";
+
+// Limits of a single sitemap file under the sitemaps.org protocol
+export const MAX_SITEMAP_URLS = 50_000;
+const MAX_SITEMAP_SIZE = 50 * 1024 * 1024;
+const MAX_LOC_LENGTH = 2048;
+
+const CHANGE_FREQUENCIES = new Set([
+  "always",
+  "hourly",
+  "daily",
+  "weekly",
+  "monthly",
+  "yearly",
+  "never",
+]);
+
+// W3C Datetime: YYYY, YYYY-MM, YYYY-MM-DD, or a date with hh:mm[:ss[.s]]
+// and a time zone designator
+const W3C_DATETIME =
+  /^\d{4}(?:-(?:0[1-9]|1[0-2])(?:-(?:0[1-9]|[12]\d|3[01])(?:T(?:[01]\d|2[0-3]):[0-5]\d(?::[0-5]\d(?:\.\d+)?)?(?:Z|[+-](?:[01]\d|2[0-3]):[0-5]\d))?)?)?$/;
+
+// Spaces, control and non-ASCII characters, and characters RFC 3986 never
+// allows unescaped
+const UNESCAPED_CHARACTER = /[^\x21-\x7e]|[<>"{}|\\^`]/;
+
+const PRIORITY_PATTERN = /^(?:\d+(?:\.\d*)?|\.\d+)$/;
+
+// Size of a string once encoded as UTF-8, without allocating the bytes
+const utf8Length = (text: string) => {
+  let bytes = 0;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // A surrogate pair encodes a single 4-byte code point
+      bytes += 4;
+      index++;
+    } else {
+      bytes += 3;
+    }
+  }
+  return bytes;
+};
+
+const isAbsoluteHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const checkSize = (content: string, findings: ProtocolFinding[]) => {
+  const size = utf8Length(content);
+  if (size > MAX_SITEMAP_SIZE) {
+    findings.push({
+      severity: "error",
+      check: "size-limit",
+      message: `The sitemap is ${(size / 1024 / 1024).toFixed(
+        1
+      )} MB uncompressed; the limit is 50 MB`,
+    });
+  }
+};
+
+const checkCount = (count: number, findings: ProtocolFinding[]) => {
+  if (count > MAX_SITEMAP_URLS) {
+    findings.push({
+      severity: "error",
+      check: "url-limit",
+      message: `The sitemap lists ${count} URLs; the limit is ${MAX_SITEMAP_URLS}`,
+    });
+  }
+};
+
+const checkLoc = (loc: string, row: number, findings: ProtocolFinding[]) => {
+  if (loc.length > MAX_LOC_LENGTH) {
+    findings.push({
+      severity: "error",
+      check: "loc-length",
+      row,
+      url: loc,
+      message: `<loc> is ${loc.length} characters long; the limit is ${MAX_LOC_LENGTH}`,
+    });
+  }
+  if (!isAbsoluteHttpUrl(loc)) {
+    findings.push({
+      severity: "error",
+      check: "loc-absolute",
+      row,
+      url: loc,
+      message: "<loc> must be an absolute http(s) URL",
+    });
+  } else if (UNESCAPED_CHARACTER.test(loc)) {
+    findings.push({
+      severity: "warning",
+      check: "loc-escaping",
+      row,
+      url: loc,
+      message: "<loc> contains characters that must be URL-escaped",
+    });
+  }
+};
+
+const checkRecord = (
+  record: Element,
+  row: number,
+  findings: ProtocolFinding[]
+) => {
+  const tag = record.localName;
+  const loc = textOf(record, SITEMAP_NAMESPACE, "loc")?.trim();
+  if (!loc) {
+    findings.push({
+      severity: "error",
+      check: "loc-missing",
+      row,
+      message: `<${tag}> #${row} has no <loc>`,
+    });
+    return;
+  }
+  checkLoc(loc, row, findings);
+
+  const lastmod = textOf(record, SITEMAP_NAMESPACE, "lastmod")?.trim();
+  if (lastmod !== undefined && !W3C_DATETIME.test(lastmod)) {
+    findings.push({
+      severity: "error",
+      check: "lastmod-format",
+      row,
+      url: loc,
+      message: `<lastmod> "${lastmod}" is not a W3C Datetime`,
+    });
+  }
+  if (tag !== "url") return;
+
+  const priority = textOf(record, SITEMAP_NAMESPACE, "priority")?.trim();
+  if (
+    priority !== undefined &&
+    (!PRIORITY_PATTERN.test(priority) || Number(priority) > 1)
+  ) {
+    findings.push({
+      severity: "error",
+      check: "priority-range",
+      row,
+      url: loc,
+      message: `<priority> "${priority}" is not between 0.0 and 1.0`,
+    });
+  }
+
+  const changefreq = textOf(record, SITEMAP_NAMESPACE, "changefreq")?.trim();
+  if (changefreq !== undefined && !CHANGE_FREQUENCIES.has(changefreq)) {
+    findings.push({
+      severity: "error",
+      check: "changefreq-value",
+      row,
+      url: loc,
+      message: `<changefreq> "${changefreq}" is not one of ${Array.from(
+        CHANGE_FREQUENCIES
+      ).join(", ")}`,
+    });
+  }
+};
+
+/**
+ * Checks a parsed XML sitemap against the sitemaps.org protocol: a <urlset>
+ * or <sitemapindex> root in the 0.9 namespace that does not mix <url> and
+ * <sitemap> children, at most 50,000 entries and 50 MB, and per entry an
+ * absolute, escaped <loc> of at most 2,048 characters, a W3C Datetime
+ * <lastmod>, a <priority> between 0.0 and 1.0 and a known <changefreq>.
+ */
+export const validateSitemapDocument = (
+  xmlDoc: Document,
+  content: string
+): ProtocolFinding[] => {
+  const findings: ProtocolFinding[] = [];
+  const root = xmlDoc.documentElement;
+
+  if (root.localName === "rss" || root.localName === "feed") {
+    findings.push({
+      severity: "info",
+      check: "root-element",
+      message:
+        "RSS and Atom feeds are accepted as sitemaps but are not covered by the sitemaps.org XML rules",
+    });
+    return findings;
+  }
+  if (root.localName !== "urlset" && root.localName !== "sitemapindex") {
+    findings.push({
+      severity: "error",
+      check: "root-element",
+      message: `<${root.localName}> is not a sitemap root; expected <urlset> or <sitemapindex>`,
+    });
+    return findings;
+  }
+
+  if (root.namespaceURI !== SITEMAP_NAMESPACE) {
+    findings.push({
+      severity: "error",
+      check: "namespace",
+      message: root.namespaceURI
+        ? `<${root.localName}> uses namespace "${root.namespaceURI}" instead of "${SITEMAP_NAMESPACE}"`
+        : `<${root.localName}> must declare xmlns="${SITEMAP_NAMESPACE}"`,
+    });
+  }
+  checkSize(content, findings);
+
+  const [recordTag, otherTag] =
+    root.localName === "urlset" ? ["url", "sitemap"] : ["sitemap", "url"];
+  const children = Array.from(root.childNodes).filter(
+    (node): node is Element => node.nodeType === 1
+  );
+
+  const inSitemapNamespace = (child: Element, localName: string) =>
+    child.localName === localName &&
+    matchesNamespace(child.namespaceURI, SITEMAP_NAMESPACE);
+
+  const mixed = children.filter((child) => inSitemapNamespace(child, otherTag));
+  if (mixed.length > 0) {
+    findings.push({
+      severity: "error",
+      check: "mixed-elements",
+      message: `<${root.localName}> must not contain <${otherTag}> elements; found ${mixed.length}`,
+    });
+  }
+
+  const records = children.filter((child) =>
+    inSitemapNamespace(child, recordTag)
+  );
+  checkCount(records.length, findings);
+  records.forEach((record, index) => checkRecord(record, index + 1, findings));
+
+  return findings;
+};
+
+/**
+ * Checks a text sitemap against the sitemaps.org limits on URL count, file
+ * size and URL length and escaping. Lines that are not URLs at all are
+ * already reported as parse warnings.
+ */
+export const validateTextSitemap = (
+  entries: SitemapEntry[],
+  content: string
+): ProtocolFinding[] => {
+  const findings: ProtocolFinding[] = [];
+  checkSize(content, findings);
+  checkCount(entries.length, findings);
+  entries.forEach((entry, index) => checkLoc(entry.url, index + 1, findings));
+  return findings;
+};
@@ -0,0 +1,61 @@
+import { findAll, findFirst, textOf } from "./dom";
+import { VIDEO_NAMESPACE } from "./namespaces";
+import type { SitemapVideo } from "./types";
+
+/**
+ * Reads the <video:video> blocks of a <url> element. Videos missing one of
+ * the fields Google requires are kept, but reported through `onWarning`.
+ */
+export const parseVideos = (
+  urlElement: Element,
+  onWarning: (message: string) => void
+): SitemapVideo[] =>
+  findAll(urlElement, VIDEO_NAMESPACE, "video").map((videoElement, index) => {
+    const restriction = findFirst(videoElement, VIDEO_NAMESPACE, "restriction");
+    const platform = findFirst(videoElement, VIDEO_NAMESPACE, "platform");
+    const uploader = findFirst(videoElement, VIDEO_NAMESPACE, "uploader");
+
+    const video: SitemapVideo = {
+      thumbnailLoc:
+        textOf(videoElement, VIDEO_NAMESPACE, "thumbnail_loc") || "",
+      title: textOf(videoElement, VIDEO_NAMESPACE, "title") || "",
+      description: textOf(videoElement, VIDEO_NAMESPACE, "description") || "",
+      contentLoc: textOf(videoElement, VIDEO_NAMESPACE, "content_loc") || "",
+      playerLoc: textOf(videoElement, VIDEO_NAMESPACE, "player_loc") || "",
+      duration: textOf(videoElement, VIDEO_NAMESPACE, "duration") || "",
+      expirationDate:
+        textOf(videoElement, VIDEO_NAMESPACE, "expiration_date") || "",
+      rating: textOf(videoElement, VIDEO_NAMESPACE, "rating") || "",
+      viewCount: textOf(videoElement, VIDEO_NAMESPACE, "view_count") || "",
+      publicationDate:
+        textOf(videoElement, VIDEO_NAMESPACE, "publication_date") || "",
+      familyFriendly:
+        textOf(videoElement, VIDEO_NAMESPACE, "family_friendly") || "",
+      restriction: restriction?.textContent || "",
+      restrictionRelationship: restriction?.getAttribute("relationship") || "",
+      platform: platform?.textContent || "",
+      platformRelationship: platform?.getAttribute("relationship") || "",
+      requiresSubscription:
+        textOf(videoElement, VIDEO_NAMESPACE, "requires_subscription") || "",
+      uploader: uploader?.textContent || "",
+      uploaderInfo: uploader?.getAttribute("info") || "",
+      live: textOf(videoElement, VIDEO_NAMESPACE, "live") || "",
+      tags: findAll(videoElement, VIDEO_NAMESPACE, "tag")
+        .map((tag) => tag.textContent || "")
+        .filter(Boolean),
+    };
+
+    const missing = [
+      !video.thumbnailLoc && "<video:thumbnail_loc>",
+      !video.title && "<video:title>",
+      !video.description && "<video:description>",
+      !video.contentLoc &&
+        !video.playerLoc &&
+        "<video:content_loc> or <video:player_loc>",
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      onWarning(`<video:video> #${index + 1} is missing ${missing.join(", ")}`);
+    }
+
+    return video;
+  });
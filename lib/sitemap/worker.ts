@@ -0,0 +1,134 @@
+import { SitemapParseError, type SitemapParseErrorDetails } from "./errors";
+import { readSitemapFile } from "./gzip";
+import { parseSitemapContent } from "./parse";
+import type { ProgressUpdate } from "./progress";
+import type { ParseResult, SitemapEntry } from "./types";
+
+// Sent to the worker: an uploaded file or already-loaded content
+export interface ParseWorkerRequest {
+  source: Blob | string;
+  validate?: boolean;
+  recover?: boolean;
+  pasted?: boolean;
+}
+
+export interface WorkerParseOptions {
+  // Reports bytes read from an uploaded file, then entries parsed
+  onProgress?: (update: ProgressUpdate) => void;
+  // Terminates the worker and rejects with the signal's reason
+  signal?: AbortSignal;
+  // Also check the sitemap against the sitemaps.org protocol
+  validate?: boolean;
+  // Repair malformed XML instead of failing
+  recover?: boolean;
+  // Clean up content pasted from a browser before parsing it
+  pasted?: boolean;
+}
+
+// Sent back by the worker, in order: any number of "progress" and "entries"
+// messages, then exactly one "done" or "error"
+export type ParseWorkerMessage =
+  | ({ type: "progress" } & ProgressUpdate)
+  | { type: "entries"; entries: SitemapEntry[] }
+  | ({ type: "done" } & Omit<ParseResult, "entries">)
+  // parseError is set when the content is not well-formed XML
+  | { type: "error"; message: string; parseError?: SitemapParseErrorDetails };
+
+/**
+ * Parses a sitemap in a dedicated Web Worker so the page stays responsive,
+ * collecting the chunked entries into a regular `ParseResult`. Falls back to
+ * parsing on the current thread where workers are unavailable.
+ */
+export const parseInWorker = (
+  source: Blob | string,
+  { onProgress, signal, validate, recover, pasted }: WorkerParseOptions = {}
+): Promise<ParseResult> => {
+  if (typeof Worker === "undefined") {
+    const encodingWarnings: string[] = [];
+    return (
+      typeof source === "string"
+        ? Promise.resolve(source)
+        : readSitemapFile(source, {
+            onRead: (processed) =>
+              onProgress?.({ unit: "bytes", processed, total: source.size }),
+            signal,
+            onWarning: (warning) => encodingWarnings.push(warning),
+          })
+    ).then((content) => {
+      signal?.throwIfAborted();
+      const result = parseSitemapContent(content, {
+        onProgress: (processed, total) =>
+          onProgress?.({ unit: "entries", processed, total }),
+        validate,
+        recover,
+        pasted,
+      });
+      return {
+        ...result,
+        warnings: [...encodingWarnings, ...result.warnings],
+      };
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL("./parse.worker.ts", import.meta.url));
+    const entries: SitemapEntry[] = [];
+
+    // Parsing is synchronous inside the worker, so stopping it means
+    // terminating the worker outright
+    const abort = () => {
+      worker.terminate();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+    };
+
+    worker.addEventListener(
+      "message",
+      ({ data }: MessageEvent<ParseWorkerMessage>) => {
+        switch (data.type) {
+          case "progress": {
+            const { type, ...update } = data;
+            onProgress?.(update);
+            break;
+          }
+          case "entries":
+            data.entries.forEach((entry) => entries.push(entry));
+            break;
+          case "done": {
+            const { type, ...result } = data;
+            finish();
+            resolve({ ...result, entries });
+            break;
+          }
+          case "error": {
+            finish();
+            const details = data.parseError;
+            reject(
+              details
+                ? new SitemapParseError(details.code, details.message, details)
+                : new Error(data.message)
+            );
+            break;
+          }
+        }
+      }
+    );
+
+    worker.addEventListener("error", (event) => {
+      finish();
+      reject(new Error(event.message || "The sitemap parser crashed"));
+    });
+
+    const request: ParseWorkerRequest = { source, validate, recover, pasted };
+    worker.postMessage(request);
+  });
+};
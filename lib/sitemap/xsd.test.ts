@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { parseXmlDocument } from "./dom";
+import { validateAgainstSchemas } from "./xsd";
+
+const validate = (content: string) =>
+  validateAgainstSchemas(parseXmlDocument(content, { locate: true }), content);
+
+// A <urlset> declaring every extension namespace, around `urls`
+const urlset = (urls: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+  xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"
+  xmlns:video="http://www.google.com/schemas/sitemap-video/1.1"
+  xmlns:news="http://www.google.com/schemas/sitemap-news/0.9"
+  xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${urls}
+</urlset>`;
+
+const messages = (content: string) =>
+  validate(content).map(({ message }) => message);
+
+describe("validateAgainstSchemas", () => {
+  it("accepts a sitemap using every extension", () => {
+    expect(
+      messages(
+        urlset(`<url>
+  <loc>https://example.com/</loc>
+  <lastmod>2024-05-10T17:33:30+08:00</lastmod>
+  <changefreq>weekly</changefreq>
+  <priority>0.8</priority>
+  <xhtml:link rel="alternate" hreflang="de" href="https://example.com/de/"/>
+  <image:image><image:loc>https://example.com/a.jpg</image:loc></image:image>
+  <video:video>
+    <video:thumbnail_loc>https://example.com/t.jpg</video:thumbnail_loc>
+    <video:title>Title</video:title>
+    <video:description>Description</video:description>
+    <video:price currency="EUR">1.99</video:price>
+  </video:video>
+  <news:news>
+    <news:publication>
+      <news:name>Example</news:name>
+      <news:language>en</news:language>
+    </news:publication>
+    <news:publication_date>2024-05-10</news:publication_date>
+    <news:title>Headline</news:title>
+  </news:news>
+</url>`)
+      )
+    ).toEqual([]);
+  });
+
+  it("accepts a sitemap index", () => {
+    expect(
+      messages(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/a.xml</loc><lastmod>2024-05-10</lastmod></sitemap>
+</sitemapindex>`)
+    ).toEqual([]);
+  });
+
+  it("checks the value types of sitemaps.org elements, with positions", () => {
+    const errors = validate(
+      urlset(`<url>
+  <loc>https://example.com/</loc>
+  <lastmod>yesterday</lastmod>
+  <changefreq>sometimes</changefreq>
+  <priority>1.5</priority>
+</url>
+<url><loc>http://a.b</loc></url>`)
+    );
+
+    expect(errors.map(({ line, message }) => [line, message])).toEqual([
+      [9, '<lastmod> "yesterday" is not a date or dateTime'],
+      [
+        10,
+        '<changefreq> "sometimes" is not one of always, hourly, daily, weekly, monthly, yearly, never',
+      ],
+      [11, '<priority> "1.5" is greater than 1'],
+      [13, '<loc> "http://a.b" is shorter than 12 characters'],
+    ]);
+  });
+
+  it("checks the order and occurrences of child elements", () => {
+    expect(
+      messages(
+        urlset(`<url>
+  <priority>0.5</priority>
+  <loc>https://example.com/</loc>
+</url>
+<url><lastmod>2024-05-10</lastmod></url>`)
+      )
+    ).toEqual([
+      // <priority> comes before any <loc>, which then comes too late
+      "<url> is missing <loc>",
+      "<loc> is out of order in <url>; expected <loc>, <lastmod>, <changefreq>, <priority> followed by extension elements",
+      "<url> is missing <loc>",
+    ]);
+  });
+
+  it("validates extension elements against their own schema", () => {
+    expect(
+      messages(
+        urlset(`<url>
+  <loc>https://example.com/</loc>
+  <image:image><image:caption>No location</image:caption></image:image>
+  <video:video>
+    <video:thumbnail_loc>https://example.com/t.jpg</video:thumbnail_loc>
+    <video:title>Title</video:title>
+    <video:description>Description</video:description>
+    <video:price>1.99</video:price>
+  </video:video>
+  <xhtml:link rel="alternate" hreflang="de"/>
+</url>`)
+      )
+    ).toEqual([
+      "<image:image> is missing <loc>",
+      '<video:price> is missing attribute "currency"',
+      '<xhtml:link> is missing attribute "href"',
+    ]);
+  });
+
+  it("skips elements of namespaces without a built-in schema", () => {
+    expect(
+      messages(
+        urlset(`<url xmlns:custom="https://example.com/ns">
+  <loc>https://example.com/</loc>
+  <custom:anything><custom:nested/></custom:anything>
+</url>`)
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,282 @@
+import { createExcerpt } from "./excerpt";
+import {
+  SCHEMAS,
+  type ElementDecl,
+  type SchemaDecl,
+  type SimpleType,
+} from "./schemas";
+import type { SchemaError } from "./types";
+
+// Validation stops collecting errors past this many
+export const MAX_SCHEMA_ERRORS = 500;
+
+const schemasByNamespace = new Map(
+  SCHEMAS.map((schema) => [schema.namespace, schema])
+);
+
+const DATE = "-?\\d{4,}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\\d|3[01])";
+const TIME = "(?:[01]\\d|2[0-3]):[0-5]\\d:[0-5]\\d(?:\\.\\d+)?|24:00:00";
+const ZONE = "(?:Z|[+-](?:(?:0\\d|1[0-3]):[0-5]\\d|14:00))?";
+const DATE_OR_DATE_TIME = new RegExp(`^${DATE}(?:T(?:${TIME}))?${ZONE}$`);
+const DECIMAL = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/;
+const INTEGER = /^[+-]?\d+$/;
+
+// Positions that xmldom records on every node it creates
+type Located = Node & { lineNumber?: number; columnNumber?: number };
+
+// Checks a value against a simple type, returning what is wrong with it
+const checkSimpleType = (raw: string, type: SimpleType): string | undefined => {
+  // Every type but xsd:string collapses surrounding whitespace
+  const value = type.base === "string" ? raw : raw.trim();
+
+  switch (type.base) {
+    case "decimal":
+      if (!DECIMAL.test(value)) return "is not a decimal number";
+      break;
+    case "integer":
+      if (!INTEGER.test(value)) return "is not an integer";
+      break;
+    case "dateOrDateTime":
+      if (!DATE_OR_DATE_TIME.test(value)) return "is not a date or dateTime";
+      break;
+    case "anyURI":
+      if (/\s/.test(value)) return "is not a URI";
+      break;
+  }
+
+  if (type.minInclusive !== undefined && Number(value) < type.minInclusive) {
+    return `is less than ${type.minInclusive}`;
+  }
+  if (type.maxInclusive !== undefined && Number(value) > type.maxInclusive) {
+    return `is greater than ${type.maxInclusive}`;
+  }
+  if (type.minLength !== undefined && value.length < type.minLength) {
+    return `is shorter than ${type.minLength} characters`;
+  }
+  if (type.maxLength !== undefined && value.length > type.maxLength) {
+    return `is longer than ${type.maxLength} characters`;
+  }
+  if (type.enumeration && !type.enumeration.includes(value)) {
+    return `is not one of ${type.enumeration.join(", ")}`;
+  }
+  if (type.pattern && !type.pattern.test(value)) {
+    return "does not match the required format";
+  }
+  return undefined;
+};
+
+const preview = (value: string) =>
+  value.length > 60 ? `"${value.slice(0, 57)}..."` : `"${value}"`;
+
+/**
+ * Validates a parsed sitemap against the built-in transcriptions of the
+ * sitemaps.org and Google extension schemas (see ./schemas), rather than the
+ * XSD files themselves. Expects `xmlDoc` to have been parsed from `content`
+ * with `parseXmlDocument`'s `locate` set; every error carries the line and
+ * column in `content` and an excerpt around it. Elements from namespaces
+ * without a built-in schema are skipped, as with processContents="lax".
+ */
+export const validateAgainstSchemas = (
+  xmlDoc: Document,
+  content: string
+): SchemaError[] => {
+  const errors: { node: Located; message: string }[] = [];
+  const report = (node: Node, message: string) => {
+    if (errors.length < MAX_SCHEMA_ERRORS) errors.push({ node, message });
+  };
+
+  const validateAttributes = (element: Element, decl: ElementDecl) => {
+    const declared = decl.attributes ?? {};
+    Object.entries(declared).forEach(([name, attribute]) => {
+      if (attribute.required && !element.hasAttribute(name)) {
+        report(element, `<${element.nodeName}> is missing attribute "${name}"`);
+      }
+    });
+
+    Array.from(element.attributes).forEach((attribute) => {
+      // Namespace declarations and qualified (e.g. xsi:) attributes are
+      // outside the content model
+      if (attribute.name === "xmlns" || attribute.name.includes(":")) return;
+
+      const declaration = declared[attribute.name];
+      if (!declaration) {
+        if (!decl.anyAttribute) {
+          report(
+            element,
+            `<${element.nodeName}> does not allow attribute "${attribute.name}"`
+          );
+        }
+        return;
+      }
+      const problem = checkSimpleType(attribute.value, declaration.type);
+      if (problem) {
+        report(
+          element,
+          `Attribute "${attribute.name}" of <${element.nodeName}> ${preview(
+            attribute.value
+          )} ${problem}`
+        );
+      }
+    });
+  };
+
+  const validateSequence = (
+    element: Element,
+    decl: ElementDecl,
+    schema: SchemaDecl,
+    children: Element[]
+  ) => {
+    const sequence = decl.sequence ?? [];
+    let position = 0;
+    let count = 0;
+    let sawOther = false;
+
+    // Reports every required particle between `position` and `end`
+    const checkSkipped = (end: number, node: Node) => {
+      for (let index = position; index < end; index++) {
+        const { name, minOccurs = 1 } = sequence[index];
+        const seen = index === position ? count : 0;
+        if (seen < minOccurs) {
+          report(node, `<${element.nodeName}> is missing <${name}>`);
+        }
+      }
+    };
+
+    children.forEach((child) => {
+      if (child.namespaceURI !== schema.namespace) {
+        if (!decl.allowOther) {
+          report(
+            child,
+            `<${child.nodeName}> is not allowed in <${element.nodeName}>`
+          );
+          return;
+        }
+        sawOther = true;
+        validateExtension(child);
+        return;
+      }
+
+      const index = sequence.findIndex(
+        ({ name }, particle) => particle >= position && name === child.localName
+      );
+      if (index === -1 || sawOther) {
+        const expected = sequence.map(({ name }) => `<${name}>`).join(", ");
+        if (sequence.some(({ name }) => name === child.localName)) {
+          report(
+            child,
+            `<${child.nodeName}> is out of order in <${element.nodeName}>; expected ${expected} followed by extension elements`
+          );
+          // Its content can still be checked
+          validateElement(child, schema);
+        } else {
+          report(
+            child,
+            `<${child.nodeName}> is not allowed in <${element.nodeName}>`
+          );
+        }
+        return;
+      }
+
+      if (index > position) {
+        checkSkipped(index, child);
+        position = index;
+        count = 0;
+      }
+      count++;
+      const { maxOccurs = 1 } = sequence[index];
+      if (count === maxOccurs + 1) {
+        report(
+          child,
+          `<${element.nodeName}> allows at most ${maxOccurs} <${child.localName}>`
+        );
+      }
+      validateElement(child, schema);
+    });
+
+    checkSkipped(sequence.length, element);
+  };
+
+  const validateElement = (element: Element, schema: SchemaDecl) => {
+    const decl = schema.elements[element.localName];
+    if (!decl) {
+      report(element, `<${element.nodeName}> is not declared by the schema`);
+      return;
+    }
+    validateAttributes(element, decl);
+
+    const children = Array.from(element.childNodes).filter(
+      (node): node is Element => node.nodeType === 1
+    );
+
+    if (decl.text) {
+      if (children.length > 0) {
+        report(
+          children[0],
+          `<${element.nodeName}> must not contain child elements`
+        );
+        return;
+      }
+      const value = element.textContent ?? "";
+      const problem = checkSimpleType(value, decl.text);
+      if (problem) {
+        report(
+          element,
+          `<${element.nodeName}> ${preview(value.trim())} ${problem}`
+        );
+      }
+      return;
+    }
+
+    Array.from(element.childNodes)
+      .filter((node) => node.nodeType === 3 && node.nodeValue?.trim())
+      .slice(0, 1)
+      .forEach((node) =>
+        report(node, `<${element.nodeName}> must not contain text`)
+      );
+    validateSequence(element, decl, schema, children);
+  };
+
+  // Extension elements are validated by the schema of their namespace
+  const validateExtension = (element: Element) => {
+    const schema = schemasByNamespace.get(element.namespaceURI ?? "");
+    if (!schema) return;
+    if (!schema.globals.includes(element.localName)) {
+      report(
+        element,
+        `<${element.nodeName}> cannot be used as an extension element`
+      );
+      return;
+    }
+    validateElement(element, schema);
+  };
+
+  const root = xmlDoc.documentElement;
+
+  if (root) {
+    const schema = schemasByNamespace.get(root.namespaceURI ?? "");
+    if (!schema || !schema.globals.includes(root.localName)) {
+      report(
+        root,
+        root.namespaceURI
+          ? `<${root.nodeName}> in namespace "${root.namespaceURI}" is not declared by any built-in sitemap schema`
+          : `<${root.nodeName}> has no namespace; sitemap roots must be in "${SCHEMAS[0].namespace}"`
+      );
+    } else {
+      validateElement(root, schema);
+    }
+  }
+
+  if (errors.length === 0) return [];
+
+  const lines = content.split("\n");
+  return errors.map(({ node, message }) => {
+    const line = node.lineNumber ?? 1;
+    const column = node.columnNumber ?? 1;
+    return {
+      line,
+      column,
+      message,
+      excerpt: createExcerpt(lines, line, column),
+    };
+  });
+};
@@ -0,0 +1,205 @@
+import { MAX_SITEMAP_BYTES, type DecompressionStreamConstructor } from "./gzip";
+
+export interface ZipContents {
+  // Sitemap files in the archive, named by their path inside it
+  files: File[];
+  // Entries that were left out, with the reason
+  skipped: string[];
+}
+
+// Files inside archives and folders that are worth parsing as sitemaps
+export const SITEMAP_FILE_PATTERN = /\.(?:xml|txt|gz)$/i;
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// The end record is 22 bytes plus a comment of up to 64 KB
+const MAX_END_RECORD_BYTES = 22 + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// Zip archives start with a local file header, or an end record when empty
+export const isZip = (bytes: Uint8Array) =>
+  bytes.length >= 4 &&
+  bytes[0] === 0x50 &&
+  bytes[1] === 0x4b &&
+  ((bytes[2] === 0x03 && bytes[3] === 0x04) ||
+    (bytes[2] === 0x05 && bytes[3] === 0x06));
+
+const readView = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+// Decompresses a deflated entry, giving up once it grows past `maxBytes`
+const inflate = (data: Blob, maxBytes: number): Promise<Blob> => {
+  const { DecompressionStream } = globalThis as unknown as {
+    DecompressionStream?: DecompressionStreamConstructor;
+  };
+  if (!DecompressionStream) {
+    throw new Error("This browser cannot decompress .zip files");
+  }
+
+  let size = 0;
+  const stream = data
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"))
+    .pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+          size += chunk.length;
+          if (size > maxBytes) {
+            throw new RangeError("larger than the sitemap size limit");
+          }
+          controller.enqueue(chunk);
+        },
+      })
+    );
+  return new Response(stream).blob();
+};
+
+/**
+ * Lists the sitemap files (.xml, .txt and .gz) in a zip archive and
+ * decompresses them with the browser's DecompressionStream. Only the central
+ * directory and the entries themselves are read, so large archives are not
+ * loaded into memory whole. Zip64 archives are rejected; encrypted entries
+ * and entries larger than `maxBytes` are skipped.
+ */
+export const readZipArchive = async (
+  archive: Blob,
+  maxBytes = MAX_SITEMAP_BYTES
+): Promise<ZipContents> => {
+  const tailStart = Math.max(0, archive.size - MAX_END_RECORD_BYTES);
+  const tail = await readView(archive, tailStart, archive.size);
+
+  let end = -1;
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("The .zip file is damaged or incomplete");
+
+  const entryCount = tail.getUint16(end + 10, true);
+  const directorySize = tail.getUint32(end + 12, true);
+  const directoryOffset = tail.getUint32(end + 16, true);
+  if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error("Zip64 archives are not supported");
+  }
+
+  const directory = await readView(
+    archive,
+    directoryOffset,
+    directoryOffset + directorySize
+  );
+  const names = new TextDecoder();
+  const files: File[] = [];
+  const skipped: string[] = [];
+
+  let offset = 0;
+  for (let index = 0; index < entryCount; index++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_HEADER) {
+      throw new Error("The .zip file is damaged or incomplete");
+    }
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    const compressedSize = directory.getUint32(offset + 20, true);
+    const size = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const headerOffset = directory.getUint32(offset + 42, true);
+    const name = names.decode(
+      new Uint8Array(
+        directory.buffer,
+        directory.byteOffset + offset + 46,
+        nameLength
+      )
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Folders and the resource forks macOS adds to archives
+    if (name.endsWith("/") || name.startsWith("__MACOSX/")) continue;
+    if (!SITEMAP_FILE_PATTERN.test(name)) {
+      skipped.push(`${name}: not a sitemap file`);
+      continue;
+    }
+    if (flags & 0x1) {
+      skipped.push(`${name}: encrypted`);
+      continue;
+    }
+    if (method !== STORED && method !== DEFLATED) {
+      skipped.push(`${name}: unsupported compression method ${method}`);
+      continue;
+    }
+    if (size > maxBytes) {
+      skipped.push(`${name}: larger than the sitemap size limit`);
+      continue;
+    }
+
+    const header = await readView(archive, headerOffset, headerOffset + 30);
+    if (header.getUint32(0, true) !== LOCAL_HEADER) {
+      skipped.push(`${name}: damaged entry`);
+      continue;
+    }
+    const dataStart =
+      headerOffset +
+      30 +
+      header.getUint16(26, true) +
+      header.getUint16(28, true);
+    const data = archive.slice(dataStart, dataStart + compressedSize);
+
+    try {
+      const content = method === STORED ? data : await inflate(data, maxBytes);
+      files.push(new File([content], name));
+    } catch (error) {
+      skipped.push(
+        `${name}: ${
+          error instanceof RangeError
+            ? error.message
+            : "could not be decompressed"
+        }`
+      );
+    }
+  }
+
+  return { files, skipped };
+};
+
+/**
+ * Replaces every zip archive among `files` with the sitemap files inside it,
+ * named "<archive>/<path>". Archives that cannot be read are reported in
+ * `skipped` along with the entries left out of readable ones.
+ */
+export const expandZipArchives = async (
+  files: File[]
+): Promise<ZipContents> => {
+  const expanded: File[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+    if (!isZip(head)) {
+      expanded.push(file);
+      continue;
+    }
+
+    try {
+      const contents = await readZipArchive(file);
+      contents.files.forEach((entry) =>
+        expanded.push(new File([entry], `${file.name}/${entry.name}`))
+      );
+      contents.skipped.forEach((reason) =>
+        skipped.push(`${file.name}/${reason}`)
+      );
+    } catch (error) {
+      skipped.push(
+        `${file.name}: ${
+          error instanceof Error ? error.message : "could not be read"
+        }`
+      );
+    }
+  }
+
+  return { files: expanded, skipped };
+};